@@ -0,0 +1,176 @@
+import { type Context } from './types';
+import { type EventSourceRequest, findEventSource, getRequestHeader } from './event-source';
+import { type ResponseParts } from './lambda-response';
+import { createDebugger } from './util';
+
+const debug = createDebugger('AccessLog');
+
+/**
+ * One access log line, written as JSON after each invocation
+ */
+export interface AccessLogEntry {
+    /** Time the invocation started, as an ISO 8601 string */
+    time: string;
+    method: string | undefined;
+    /** Request path as the event source read it from the event */
+    path: string | undefined;
+    status: number;
+    /** Response body size in bytes, after base64 decoding */
+    bytes: number;
+    /** Milliseconds from the start of the invocation to the result */
+    duration: number;
+    /** First `X-Forwarded-For` hop, else the address the event source reports */
+    clientIp: string;
+    userAgent: string | undefined;
+    /** Request ID of the event source, e.g. API Gateway's `requestContext.requestId` */
+    requestId: string | undefined;
+    /** Lambda request ID (`context.awsRequestId`) */
+    awsRequestId: string | undefined;
+    /** Whether this was the first invocation handled by this execution environment */
+    coldStart: boolean;
+}
+
+/**
+ * Destination for access log entries
+ */
+export type AccessLogSink = (entry: AccessLogEntry) => void;
+
+/**
+ * Options for the access log
+ */
+export interface AccessLogOptions {
+    /**
+     * Where entries go. Defaults to one JSON line on stdout, which CloudWatch
+     * Logs Insights discovers fields from.
+     */
+    sink?: AccessLogSink;
+    /** Fraction of invocations to log, from 0 to 1. Defaults to 1. */
+    sampleRate?: number;
+}
+
+/**
+ * Timing of a single invocation, and what the access log reports of its
+ * request and response
+ */
+export interface InvocationTiming {
+    startTime: number;
+    coldStart: boolean;
+    /** Body bytes written to the response stream, for streamed invocations */
+    streamedBytes?: number;
+    /** The request the event source built from the event */
+    request?: EventSourceRequest;
+    /**
+     * The parts the result was serialized from; unknown for results from
+     * `errorHandler`, `timeoutResult` or a payload limit strategy rewriting the result
+     */
+    response?: ResponseParts;
+}
+
+let warm = false;
+
+/**
+ * Treat the next invocation as a cold start again, e.g. between tests
+ */
+export function resetColdStart(): void {
+    warm = false;
+}
+
+/**
+ * Record the start of an invocation. Only the first invocation in an
+ * execution environment is a cold start.
+ */
+export function startInvocation(): InvocationTiming {
+    const coldStart = !warm;
+    warm = true;
+    return { startTime: Date.now(), coldStart };
+}
+
+function writeJSONLine(entry: AccessLogEntry): void {
+    process.stdout.write(JSON.stringify(entry) + '\n');
+}
+
+/**
+ * The request of an event whose invocation did not record one
+ */
+function eventRequest(event: unknown): EventSourceRequest | undefined {
+    try {
+        return findEventSource(event)?.toRequest(event);
+    } catch (e) {
+        debug('createAccessLogEntry: cannot read the request from the event', e);
+        return undefined;
+    }
+}
+
+/**
+ * Status and body size of a result whose response parts are unknown, read from
+ * the API Gateway/ALB result shape
+ */
+function resultSize(result: unknown): { status: number, bytes: number } {
+    if (typeof result === 'object' && result !== null && 'statusCode' in result) {
+        const body = 'body' in result && typeof result.body === 'string' ? result.body : '';
+        const isBase64Encoded = 'isBase64Encoded' in result && result.isBase64Encoded === true;
+        return {
+            status: typeof result.statusCode === 'number' ? result.statusCode : 200,
+            bytes: Buffer.byteLength(body, isBase64Encoded ? 'base64' : 'utf8'),
+        };
+    }
+    // v2 handlers may return any JSON value; API Gateway serializes it
+    return { status: 200, bytes: Buffer.byteLength(typeof result === 'string' ? result : JSON.stringify(result) ?? '') };
+}
+
+/**
+ * Build the access log entry for a finished invocation.
+ *
+ * Request fields come from `timing.request`, else from the event source of
+ * `event`; status and size from `timing.response`, else from `result`.
+ */
+export function createAccessLogEntry(
+    event: unknown,
+    context: Context | undefined,
+    result: unknown,
+    timing: InvocationTiming
+): AccessLogEntry {
+    const request = timing.request ?? eventRequest(event);
+    const { status, bytes } = timing.response
+        ? { status: timing.response.statusCode ?? 200, bytes: timing.response.body.length }
+        : resultSize(result);
+
+    const forwardedFor = request && getRequestHeader(request, 'x-forwarded-for');
+    return {
+        time: new Date(timing.startTime).toISOString(),
+        method: request?.method,
+        path: request?.path,
+        status,
+        // A streamed body goes to the response stream, not into the result
+        bytes: bytes + (timing.streamedBytes ?? 0),
+        duration: Date.now() - timing.startTime,
+        clientIp: forwardedFor?.split(',')[0].trim() || request?.remoteAddress || '',
+        userAgent: request && getRequestHeader(request, 'user-agent'),
+        requestId: request?.requestId,
+        awsRequestId: context?.awsRequestId,
+        coldStart: timing.coldStart,
+    };
+}
+
+/**
+ * Write the access log entry for a finished invocation, subject to the sampling rate
+ */
+export function logAccess(
+    event: unknown,
+    context: Context | undefined,
+    result: unknown,
+    timing: InvocationTiming,
+    options: AccessLogOptions = {}
+): void {
+    const sampleRate = options.sampleRate ?? 1;
+    if (sampleRate < 1 && Math.random() >= sampleRate) {
+        return;
+    }
+
+    try {
+        (options.sink || writeJSONLine)(createAccessLogEntry(event, context, result, timing));
+    } catch (e) {
+        // Logging must never fail the invocation
+        debug('logAccess: sink failed', e);
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * Normalized view of the caller identity API Gateway verified before invoking
+ * the function, across v1 (Cognito, Lambda, IAM) and v2 (JWT, Lambda, IAM)
+ * authorizers
+ */
+
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type APIGatewayEvent, type ALBEvent } from './types';
+
+/**
+ * Authorizer that produced a `LambdaAuth`
+ */
+export type LambdaAuthType = 'cognito' | 'jwt' | 'lambda' | 'iam';
+
+/**
+ * Caller identity from `requestContext.authorizer`
+ */
+export interface LambdaAuth {
+    /** Authorizer that verified the caller */
+    type: LambdaAuthType;
+    /** Principal the authorizer returned, or the token subject */
+    principalId: string | undefined;
+    /** Token claims (Cognito and JWT authorizers) */
+    claims: { [name: string]: unknown };
+    /** OAuth scopes granted to the caller */
+    scopes: string[];
+    /** Context values returned by a Lambda authorizer, or IAM caller details */
+    context: { [name: string]: unknown };
+}
+
+// Keys API Gateway adds to a v1 Lambda authorizer's context
+const V1_AUTHORIZER_RESERVED_KEYS = new Set(['principalId', 'integrationLatency', 'claims']);
+
+/**
+ * Split a space-separated OAuth `scope` claim into scopes
+ */
+function scopesFromClaims(claims: { [name: string]: unknown }): string[] {
+    const scope = claims.scope ?? claims.scp;
+    if (Array.isArray(scope)) {
+        return scope.map(String);
+    }
+    if (typeof scope === 'string' && scope.length > 0) {
+        return scope.split(' ').filter(Boolean);
+    }
+    return [];
+}
+
+/**
+ * Build the normalized caller identity from an event's `requestContext.authorizer`.
+ *
+ * @returns The caller identity, or `undefined` when the route has no authorizer.
+ */
+export function getLambdaAuth(event: unknown): LambdaAuth | undefined {
+    const requestContext = (event as { requestContext?: { authorizer?: { [name: string]: any } | null } } | null | undefined)?.requestContext;
+    const authorizer = requestContext?.authorizer;
+    if (!authorizer || typeof authorizer !== 'object') {
+        return undefined;
+    }
+
+    // v2 JWT authorizer
+    if (authorizer.jwt) {
+        const claims = authorizer.jwt.claims || {};
+        return {
+            type: 'jwt',
+            principalId: authorizer.principalId || (claims.sub as string | undefined),
+            claims,
+            scopes: Array.isArray(authorizer.jwt.scopes) ? authorizer.jwt.scopes : scopesFromClaims(claims),
+            context: {},
+        };
+    }
+
+    // v2 Lambda authorizer
+    if (authorizer.lambda) {
+        return {
+            type: 'lambda',
+            principalId: authorizer.principalId || authorizer.lambda.principalId,
+            claims: {},
+            scopes: scopesFromClaims(authorizer.lambda),
+            context: authorizer.lambda,
+        };
+    }
+
+    // v2 IAM authorizer
+    if (authorizer.iam) {
+        return {
+            type: 'iam',
+            principalId: authorizer.iam.userArn || authorizer.iam.userId,
+            claims: {},
+            scopes: [],
+            context: authorizer.iam,
+        };
+    }
+
+    // v1 Cognito user pool authorizer
+    if (authorizer.claims) {
+        const claims = authorizer.claims;
+        return {
+            type: 'cognito',
+            principalId: authorizer.principalId || (claims.sub as string | undefined),
+            claims,
+            scopes: scopesFromClaims(claims),
+            context: {},
+        };
+    }
+
+    // v1 Lambda authorizer: the context keys sit next to `principalId`
+    if (authorizer.principalId) {
+        const context: { [name: string]: unknown } = {};
+        for (const [key, value] of Object.entries(authorizer)) {
+            if (!V1_AUTHORIZER_RESERVED_KEYS.has(key)) {
+                context[key] = value;
+            }
+        }
+        return {
+            type: 'lambda',
+            principalId: authorizer.principalId,
+            claims: {},
+            scopes: scopesFromClaims(context),
+            context,
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Express-style middleware that rejects requests lacking any of the given scopes:
+ * `401` when the request carries no authorizer identity, `403` when scopes are missing.
+ */
+export function requireScopes(...scopes: string[]) {
+    return (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void): void => {
+        const event = (req as { lambdaEvent?: APIGatewayEvent | ALBEvent }).lambdaEvent;
+        const auth = event ? getLambdaAuth(event) : undefined;
+
+        let statusCode: number | undefined;
+        if (!auth) {
+            statusCode = 401;
+        } else if (!scopes.every((scope) => auth.scopes.includes(scope))) {
+            statusCode = 403;
+        }
+
+        if (statusCode === undefined) {
+            next();
+            return;
+        }
+
+        res.statusCode = statusCode;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ message: statusCode === 401 ? 'Unauthorized' : 'Forbidden' }));
+    };
+}
@@ -0,0 +1,122 @@
+/**
+ * CloudFront Lambda@Edge support: viewer and origin request events become
+ * requests, and responses become CloudFront generated responses
+ */
+
+import { STATUS_CODES } from 'http';
+import { type EventSource } from './event-source';
+import { type ResponseParts, isBinaryBody } from './lambda-response';
+import { type CloudFrontHeaders, type CloudFrontRequestEvent, type CloudFrontResultResponse, isCloudFrontRequestEvent } from './types';
+import { createDebugger } from './util';
+
+const debug = createDebugger('CloudFront');
+
+/**
+ * Largest response a Lambda@Edge function may generate for an origin request,
+ * headers and body included
+ */
+export const CLOUDFRONT_ORIGIN_REQUEST_MAX_SIZE = 1024 * 1024;
+
+/**
+ * Largest response a Lambda@Edge function may generate for a viewer request,
+ * headers and body included
+ */
+export const CLOUDFRONT_VIEWER_REQUEST_MAX_SIZE = 40 * 1024;
+
+/**
+ * Headers CloudFront rejects in generated responses (the Lambda@Edge "disallowed
+ * headers"), plus connection framing headers the result does not use
+ */
+const BLOCKED_HEADERS = new Set([
+    'connection', 'expect', 'keep-alive', 'proxy-authenticate', 'proxy-authorization',
+    'proxy-connection', 'trailer', 'transfer-encoding', 'upgrade', 'via', 'x-amzn-auth',
+    'x-amzn-cf-billing', 'x-amzn-cf-id', 'x-amzn-cf-xff', 'x-amzn-errortype',
+    'x-amzn-fle-profile', 'x-amzn-header-count', 'x-amzn-header-order',
+    'x-amzn-lambda-integration-tag', 'x-amzn-requestid', 'x-cache', 'x-forwarded-proto',
+    'x-real-ip',
+]);
+
+/**
+ * Disallowed header families. `X-Accel-*` covers the four nginx headers on the
+ * list (`Buffering`, `Charset`, `Limit-Rate`, `Redirect`) and any others.
+ */
+const BLOCKED_HEADER_PREFIXES = ['x-accel-', 'x-amz-cf-', 'x-edge-'];
+
+/**
+ * Whether CloudFront rejects a generated response carrying this header
+ */
+export function isBlockedEdgeHeader(name: string): boolean {
+    const key = name.toLowerCase();
+    return BLOCKED_HEADERS.has(key) || BLOCKED_HEADER_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+/**
+ * Build a CloudFront generated response. Headers CloudFront rejects are dropped,
+ * and bodies that are not text are base64-encoded.
+ */
+export function toCloudFrontResult(parts: ResponseParts, binaryMediaTypes: string[] = []): CloudFrontResultResponse {
+    const headers: CloudFrontHeaders = {};
+    const entries: [string, (string | boolean | number)[]][] = [
+        ...Object.entries(parts.headers).map(([name, value]): [string, (string | boolean | number)[]] => [name, [value]]),
+        ...Object.entries(parts.multiValueHeaders),
+    ];
+    for (const [name, values] of entries) {
+        if (isBlockedEdgeHeader(name)) {
+            debug('toCloudFrontResult: dropping disallowed header %s', name);
+            continue;
+        }
+        headers[name] = values.map((value) => ({ key: name, value: String(value) }));
+    }
+
+    const statusCode = parts.statusCode || 200;
+    const binary = isBinaryBody(parts, binaryMediaTypes);
+    return {
+        status: String(statusCode),
+        statusDescription: parts.statusMessage || STATUS_CODES[statusCode] || '',
+        headers,
+        bodyEncoding: binary ? 'base64' : 'text',
+        body: parts.body.toString(binary ? 'base64' : 'utf8'),
+    };
+}
+
+/**
+ * CloudFront viewer and origin request events (`Records[0].cf.request`).
+ *
+ * The body is only present when the cache behavior's `includeBody` is set, and
+ * CloudFront truncates it at the Lambda@Edge body size limit.
+ */
+export const cloudFrontEventSource: EventSource<CloudFrontRequestEvent, CloudFrontResultResponse> = {
+    name: 'cloudfront',
+    matches: (event: unknown): event is CloudFrontRequestEvent => isCloudFrontRequestEvent(event),
+    toRequest: (event) => {
+        const { config, request } = event.Records[0].cf;
+
+        const headers: [string, string][] = [];
+        for (const [name, values] of Object.entries(request.headers || {})) {
+            for (const { key, value } of values) {
+                headers.push([key || name, value]);
+            }
+        }
+
+        const body = request.body?.data
+            ? Buffer.from(request.body.data, request.body.encoding === 'base64' ? 'base64' : 'utf8')
+            : undefined;
+
+        return {
+            method: request.method,
+            path: request.uri,
+            query: request.querystring || '',
+            headers,
+            body,
+            bodyTruncated: request.body?.inputTruncated === true,
+            remoteAddress: request.clientIp,
+            // Only forwarded to the origin when the cache policy includes it
+            isHttps: request.headers?.['cloudfront-forwarded-proto']?.[0]?.value === 'https',
+            requestId: config.requestId,
+        };
+    },
+    toResult: (parts, _event, options) => toCloudFrontResult(parts, options.binaryMediaTypes),
+    maxPayloadSize: (event) => event.Records[0].cf.config.eventType === 'viewer-request'
+        ? CLOUDFRONT_VIEWER_REQUEST_MAX_SIZE
+        : CLOUDFRONT_ORIGIN_REQUEST_MAX_SIZE,
+};
@@ -0,0 +1,153 @@
+import { brotliCompressSync, constants, deflateSync, gzipSync } from 'zlib';
+
+import { type ResponseParts } from './lambda-response';
+import { createDebugger, isTextMediaType, matchesMediaType } from './util';
+
+const debug = createDebugger('Compression');
+
+/**
+ * Content codings the response can be compressed with
+ */
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+/**
+ * Options for compressing response bodies
+ */
+export interface CompressionOptions {
+    /** Smallest body, in bytes, worth compressing. Defaults to 1024. */
+    threshold?: number;
+    /** Encodings to offer, in order of preference. Defaults to `['br', 'gzip', 'deflate']`. */
+    encodings?: CompressionEncoding[];
+    /**
+     * Media types to compress. Wildcards such as `image/*` are supported.
+     * Defaults to text types (`text/*`, JSON, XML, JavaScript, SVG, ...).
+     */
+    types?: string[];
+}
+
+const DEFAULT_THRESHOLD = 1024;
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'gzip', 'deflate'];
+
+/**
+ * Pick the encoding to use from an `Accept-Encoding` header.
+ *
+ * The client's highest q-value wins; ties go to the first entry of `encodings`.
+ * `*` stands for any encoding the client did not list.
+ *
+ * @returns The encoding, or `undefined` when the client accepts none of them.
+ */
+export function negotiateEncoding(acceptEncoding: string | undefined, encodings: CompressionEncoding[] = DEFAULT_ENCODINGS): CompressionEncoding | undefined {
+    if (!acceptEncoding) {
+        return undefined;
+    }
+
+    const accepted = new Map<string, number>();
+    for (const entry of acceptEncoding.split(',')) {
+        const [coding, ...params] = entry.trim().toLowerCase().split(';');
+        if (!coding) {
+            continue;
+        }
+        const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+        accepted.set(coding.trim(), q ? parseFloat(q.slice(2)) || 0 : 1);
+    }
+
+    let best: CompressionEncoding | undefined;
+    let bestQ = 0;
+    for (const encoding of encodings) {
+        const q = accepted.get(encoding) ?? accepted.get('*') ?? 0;
+        if (q > bestQ) {
+            best = encoding;
+            bestQ = q;
+        }
+    }
+    return best;
+}
+
+function compress(body: Buffer, encoding: CompressionEncoding): Buffer {
+    switch (encoding) {
+        case 'br':
+            // The default quality (11) is too slow for per-request compression
+            return brotliCompressSync(body, {
+                params: {
+                    [constants.BROTLI_PARAM_QUALITY]: 4,
+                    [constants.BROTLI_PARAM_SIZE_HINT]: body.length,
+                },
+            });
+        case 'gzip':
+            return gzipSync(body);
+        case 'deflate':
+            return deflateSync(body);
+    }
+}
+
+/**
+ * Add `Accept-Encoding` to the `Vary` header, unless it is already covered
+ */
+function addVary(parts: ResponseParts): void {
+    const existing = parts.multiValueHeaders['vary'] ?? (parts.headers['vary'] !== undefined ? [parts.headers['vary']] : []);
+    const fields = existing.flatMap((value) => String(value).split(',')).map((field) => field.trim().toLowerCase());
+    if (fields.includes('*') || fields.includes('accept-encoding')) {
+        return;
+    }
+    if (parts.multiValueHeaders['vary']) {
+        parts.multiValueHeaders['vary'].push('Accept-Encoding');
+    } else {
+        parts.headers['vary'] = existing.length > 0 ? `${existing[0]}, Accept-Encoding` : 'Accept-Encoding';
+    }
+}
+
+/**
+ * Compress the body of a response when the client accepts it, the media type is
+ * compressible and the body is at least `threshold` bytes.
+ *
+ * Bodies that already carry a `Content-Encoding`, and responses marked
+ * `Cache-Control: no-transform`, are returned untouched.
+ */
+export function compressResponse(parts: ResponseParts, acceptEncoding: string | undefined, options: CompressionOptions = {}): ResponseParts {
+    const contentEncoding = parts.headers['content-encoding'] ?? parts.multiValueHeaders['content-encoding'];
+    if (contentEncoding !== undefined) {
+        return parts;
+    }
+    if (parts.body.length < (options.threshold ?? DEFAULT_THRESHOLD)) {
+        return parts;
+    }
+
+    const contentType = parts.headers['content-type'];
+    if (contentType === undefined) {
+        return parts;
+    }
+    const mediaType = String(contentType);
+    if (options.types ? !matchesMediaType(mediaType, options.types) : !isTextMediaType(mediaType)) {
+        return parts;
+    }
+    if (/\bno-transform\b/i.test(String(parts.headers['cache-control'] ?? ''))) {
+        return parts;
+    }
+
+    const encoding = negotiateEncoding(acceptEncoding, options.encodings);
+    if (encoding === undefined) {
+        return parts;
+    }
+
+    const body = compress(parts.body, encoding);
+    if (body.length >= parts.body.length) {
+        debug('compressResponse: %s did not shrink the body; sending it uncompressed', encoding);
+        return parts;
+    }
+    debug('compressResponse: %s %d -> %d bytes', encoding, parts.body.length, body.length);
+
+    const compressed: ResponseParts = {
+        ...parts,
+        headers: { ...parts.headers, 'content-encoding': encoding },
+        multiValueHeaders: { ...parts.multiValueHeaders },
+        body,
+    };
+    if (compressed.headers['content-length'] !== undefined) {
+        compressed.headers['content-length'] = String(body.length);
+    }
+    if (compressed.multiValueHeaders['vary']) {
+        compressed.multiValueHeaders['vary'] = [...compressed.multiValueHeaders['vary']];
+    }
+    addVary(compressed);
+    return compressed;
+}
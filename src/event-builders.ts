@@ -0,0 +1,441 @@
+import { isUtf8 } from 'buffer';
+import { randomUUID } from 'crypto';
+
+import {
+    type ALBEvent,
+    type ALBResult,
+    type APIGatewayProxyEvent,
+    type APIGatewayProxyEventV2,
+    type APIGatewayProxyResult,
+    type APIGatewayProxyResultV2,
+    type Context,
+} from './types';
+import { isTextMediaType } from './util';
+
+/**
+ * A fetch-style description of an HTTP request, used to build Lambda events
+ */
+export interface EventRequest {
+    /** HTTP method. Defaults to `GET`. */
+    method?: string;
+    /** Path and query string, e.g. `/users?tag=a&tag=b`. Defaults to `/`. */
+    url?: string;
+    /** Request headers, as a map (repeated headers as arrays) or as `[name, value]` pairs */
+    headers?: { [name: string]: string | string[] } | [string, string][];
+    /** Request body. Non-text bodies are base64-encoded in the event. */
+    body?: string | Buffer | Uint8Array;
+    /** Cookies as `name=value` strings */
+    cookies?: string[];
+    /** Client IP recorded in the request context. Defaults to `127.0.0.1`. */
+    sourceIp?: string;
+    /** `requestContext.authorizer` value (API Gateway events only) */
+    authorizer?: { [name: string]: any };
+    /** API Gateway stage. Defaults to `prod` for v1 and `$default` for v2. */
+    stage?: string;
+}
+
+/**
+ * Options for `buildALBEvent`
+ */
+export interface ALBEventOptions {
+    /** Build the event the way a target group with multi-value headers enabled sends it */
+    multiValueHeaders?: boolean;
+}
+
+/**
+ * A Lambda HTTP result decoded for assertions
+ */
+export interface InvokeResult {
+    /** HTTP status code */
+    status: number;
+    /** Status text (ALB `statusDescription` only) */
+    statusText?: string;
+    /** Response headers with lower-cased names; repeated headers joined with `, ` */
+    headers: { [name: string]: string };
+    /** `Set-Cookie` values, from v2 `cookies` or the `set-cookie` header */
+    cookies: string[];
+    /** Body decoded from base64 when needed, as UTF-8 text */
+    body: string;
+    /** Body decoded from base64 when needed, as bytes */
+    rawBody: Buffer;
+}
+
+/**
+ * Event format produced by the builders
+ */
+export type EventVersion = 'v1' | 'v2' | 'alb';
+
+const ALB_TARGET_GROUP_ARN = 'arn:aws:elasticloadbalancing:us-east-1:123456789012:targetgroup/lambda/0000000000000000';
+
+/**
+ * A request broken down into the parts every event format needs
+ */
+interface NormalizedRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: [string, string][];
+    cookies: string[];
+    body: Buffer | undefined;
+    sourceIp: string;
+}
+
+function normalizeRequest(request: EventRequest): NormalizedRequest {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    const headers: [string, string][] = [];
+    if (Array.isArray(request.headers)) {
+        headers.push(...request.headers);
+    } else {
+        for (const [name, value] of Object.entries(request.headers || {})) {
+            for (const item of Array.isArray(value) ? value : [value]) {
+                headers.push([name, item]);
+            }
+        }
+    }
+
+    let body: Buffer | undefined;
+    if (request.body !== undefined && request.body.length > 0) {
+        body = typeof request.body === 'string' ? Buffer.from(request.body, 'utf8') : Buffer.from(request.body);
+    }
+
+    return {
+        method: (request.method || 'GET').toUpperCase(),
+        path: url.pathname,
+        query: url.searchParams,
+        headers,
+        cookies: request.cookies || [],
+        body,
+        sourceIp: request.sourceIp || '127.0.0.1',
+    };
+}
+
+/**
+ * Read the first value of a header, ignoring case
+ */
+function headerValue(headers: [string, string][], name: string): string | undefined {
+    return headers.find(([header]) => header.toLowerCase() === name)?.[1];
+}
+
+/**
+ * Encode a body the way API Gateway does: text as-is, anything else base64
+ */
+function encodeBody(body: Buffer | undefined, contentType: string | undefined): { body: string | null, isBase64Encoded: boolean } {
+    if (body === undefined) {
+        return { body: null, isBase64Encoded: false };
+    }
+    const isText = contentType ? isTextMediaType(contentType) : isUtf8(body);
+    if (isText) {
+        return { body: body.toString('utf8'), isBase64Encoded: false };
+    }
+    return { body: body.toString('base64'), isBase64Encoded: true };
+}
+
+/**
+ * Collect header pairs into single-value (last value wins) and multi-value maps
+ */
+function collectHeaders(headers: [string, string][], lowerCase: boolean): {
+    headers: { [name: string]: string },
+    multiValueHeaders: { [name: string]: string[] },
+} {
+    const single: { [name: string]: string } = {};
+    const multi: { [name: string]: string[] } = {};
+    for (const [header, value] of headers) {
+        const name = lowerCase ? header.toLowerCase() : header;
+        single[name] = value;
+        (multi[name] ??= []).push(value);
+    }
+    return { headers: single, multiValueHeaders: multi };
+}
+
+/**
+ * Collect query parameters into single-value (last value wins) and multi-value maps
+ */
+function collectQuery(query: URLSearchParams, encode: (value: string) => string = (value) => value): {
+    queryStringParameters: { [name: string]: string } | null,
+    multiValueQueryStringParameters: { [name: string]: string[] } | null,
+} {
+    const single: { [name: string]: string } = {};
+    const multi: { [name: string]: string[] } = {};
+    for (const [key, value] of query) {
+        single[encode(key)] = encode(value);
+        (multi[encode(key)] ??= []).push(encode(value));
+    }
+    if (Object.keys(single).length === 0) {
+        return { queryStringParameters: null, multiValueQueryStringParameters: null };
+    }
+    return { queryStringParameters: single, multiValueQueryStringParameters: multi };
+}
+
+/**
+ * v1 and ALB events carry cookies in the `Cookie` header
+ */
+function withCookieHeader(request: NormalizedRequest): [string, string][] {
+    if (request.cookies.length === 0) {
+        return request.headers;
+    }
+    return [...request.headers, ['Cookie', request.cookies.join('; ')]];
+}
+
+/**
+ * Build an API Gateway REST API (v1) proxy event
+ */
+export function buildV1Event(request: EventRequest = {}): APIGatewayProxyEvent {
+    const normalized = normalizeRequest(request);
+    const headerPairs = withCookieHeader(normalized);
+    const { headers, multiValueHeaders } = collectHeaders(headerPairs, false);
+    const stage = request.stage || 'prod';
+    const now = new Date();
+
+    return {
+        resource: '/{proxy+}',
+        path: normalized.path,
+        httpMethod: normalized.method,
+        headers,
+        multiValueHeaders,
+        ...collectQuery(normalized.query),
+        pathParameters: { proxy: normalized.path.replace(/^\//, '') },
+        stageVariables: null,
+        requestContext: {
+            accountId: '123456789012',
+            apiId: 'local',
+            authorizer: request.authorizer ?? {},
+            protocol: 'HTTP/1.1',
+            httpMethod: normalized.method,
+            identity: {
+                accessKey: null,
+                accountId: null,
+                apiKey: null,
+                apiKeyId: null,
+                caller: null,
+                clientCert: null,
+                cognitoAuthenticationProvider: null,
+                cognitoAuthenticationType: null,
+                cognitoIdentityId: null,
+                cognitoIdentityPoolId: null,
+                principalOrgId: null,
+                sourceIp: normalized.sourceIp,
+                user: null,
+                userAgent: headerValue(headerPairs, 'user-agent') ?? null,
+                userArn: null,
+            },
+            path: `/${stage}${normalized.path}`,
+            stage,
+            requestId: randomUUID(),
+            requestTimeEpoch: now.getTime(),
+            resourceId: 'local',
+            resourcePath: '/{proxy+}',
+        },
+        ...encodeBody(normalized.body, headerValue(headerPairs, 'content-type')),
+    };
+}
+
+/**
+ * Build an API Gateway HTTP API (v2) or Function URL event
+ */
+export function buildV2Event(request: EventRequest = {}): APIGatewayProxyEventV2 {
+    const normalized = normalizeRequest(request);
+    const headers: { [name: string]: string } = {};
+    const cookies = [...normalized.cookies];
+    for (const [name, values] of Object.entries(collectHeaders(normalized.headers, true).multiValueHeaders)) {
+        if (name === 'cookie') {
+            cookies.push(...values.flatMap((value) => value.split(';')).map((cookie) => cookie.trim()).filter(Boolean));
+        } else {
+            headers[name] = values.join(',');
+        }
+    }
+
+    const queryStringParameters: { [name: string]: string } = {};
+    for (const key of new Set(normalized.query.keys())) {
+        queryStringParameters[key] = normalized.query.getAll(key).join(',');
+    }
+
+    const host = headers['host'] || 'localhost';
+    const stage = request.stage || '$default';
+    const now = new Date();
+    const { body, isBase64Encoded } = encodeBody(normalized.body, headers['content-type']);
+
+    const event: APIGatewayProxyEventV2 = {
+        version: '2.0',
+        routeKey: '$default',
+        rawPath: normalized.path,
+        rawQueryString: normalized.query.toString(),
+        cookies: cookies.length > 0 ? cookies : undefined,
+        headers,
+        queryStringParameters: Object.keys(queryStringParameters).length > 0 ? queryStringParameters : undefined,
+        requestContext: {
+            accountId: '123456789012',
+            apiId: 'local',
+            domainName: host,
+            domainPrefix: host.split('.')[0],
+            http: {
+                method: normalized.method,
+                path: normalized.path,
+                protocol: 'HTTP/1.1',
+                sourceIp: normalized.sourceIp,
+                userAgent: headers['user-agent'] || '',
+            },
+            requestId: randomUUID(),
+            routeKey: '$default',
+            stage,
+            time: now.toISOString(),
+            timeEpoch: now.getTime(),
+        },
+        body: body ?? undefined,
+        isBase64Encoded,
+    };
+    if (request.authorizer) {
+        (event.requestContext as { authorizer?: unknown }).authorizer = request.authorizer;
+    }
+    return event;
+}
+
+/**
+ * Build an Application Load Balancer target group event
+ */
+export function buildALBEvent(request: EventRequest = {}, options: ALBEventOptions = {}): ALBEvent {
+    const normalized = normalizeRequest(request);
+    const headerPairs = withCookieHeader(normalized);
+    const { headers, multiValueHeaders } = collectHeaders(headerPairs, true);
+    // ALB passes query parameters through URL-encoded
+    const query = collectQuery(normalized.query, encodeURIComponent);
+    const { body, isBase64Encoded } = encodeBody(normalized.body, headers['content-type']);
+
+    const event: ALBEvent = {
+        requestContext: {
+            elb: {
+                targetGroupArn: ALB_TARGET_GROUP_ARN,
+            },
+        },
+        httpMethod: normalized.method,
+        path: normalized.path,
+        body: body ?? '',
+        isBase64Encoded,
+    };
+
+    if (options.multiValueHeaders) {
+        event.multiValueHeaders = multiValueHeaders;
+        event.multiValueQueryStringParameters = query.multiValueQueryStringParameters || {};
+    } else {
+        event.headers = headers;
+        event.queryStringParameters = query.queryStringParameters || {};
+    }
+    return event;
+}
+
+/**
+ * Build an event of the given format
+ */
+export function buildEvent(version: EventVersion, request: EventRequest = {}, options: ALBEventOptions = {}): APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent {
+    if (version === 'v1') {
+        return buildV1Event(request);
+    } else if (version === 'alb') {
+        return buildALBEvent(request, options);
+    }
+    return buildV2Event(request);
+}
+
+/**
+ * Build a fake Lambda `Context` for a single invocation
+ *
+ * @param functionName Function name to report.
+ * @param timeout Invocation time limit reported by `getRemainingTimeInMillis()`.
+ */
+export function buildContext(functionName: string = 'local', timeout: number = 30000): Context {
+    const deadline = Date.now() + timeout;
+
+    return {
+        callbackWaitsForEmptyEventLoop: true,
+        functionName,
+        functionVersion: '$LATEST',
+        invokedFunctionArn: `arn:aws:lambda:us-east-1:123456789012:function:${functionName}`,
+        memoryLimitInMB: '128',
+        awsRequestId: randomUUID(),
+        logGroupName: `/aws/lambda/${functionName}`,
+        logStreamName: 'local',
+        getRemainingTimeInMillis: () => Math.max(deadline - Date.now(), 0),
+        done: () => {},
+        fail: () => {},
+        succeed: () => {},
+    };
+}
+
+/**
+ * Decode a Lambda HTTP result into status, headers, cookies and body bytes
+ */
+export function decodeResult(result: APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult): InvokeResult {
+    // v2 handlers may return any JSON value; API Gateway serializes it with status 200
+    if (typeof result !== 'object' || result === null || !('statusCode' in result)) {
+        const body = typeof result === 'string' ? result : JSON.stringify(result);
+        return {
+            status: 200,
+            headers: { 'content-type': 'application/json' },
+            cookies: [],
+            body,
+            rawBody: Buffer.from(body, 'utf8'),
+        };
+    }
+
+    const headers: { [name: string]: string } = {};
+    const cookies: string[] = [];
+    const add = (name: string, value: string | number | boolean) => {
+        const key = name.toLowerCase();
+        if (key === 'set-cookie') {
+            cookies.push(String(value));
+        } else {
+            headers[key] = headers[key] === undefined ? String(value) : `${headers[key]}, ${value}`;
+        }
+    };
+
+    // API Gateway and ALB prefer multiValueHeaders where both define a header
+    const multiValueHeaders = 'multiValueHeaders' in result && result.multiValueHeaders ? result.multiValueHeaders : {};
+    const multiValueNames = new Set(Object.keys(multiValueHeaders).map((name) => name.toLowerCase()));
+    for (const [name, value] of Object.entries(result.headers || {})) {
+        if (!multiValueNames.has(name.toLowerCase())) {
+            add(name, value);
+        }
+    }
+    for (const [name, values] of Object.entries(multiValueHeaders)) {
+        values.forEach((value) => add(name, value));
+    }
+    if ('cookies' in result && result.cookies) {
+        cookies.push(...result.cookies);
+    }
+
+    const rawBody = Buffer.from(result.body || '', result.isBase64Encoded ? 'base64' : 'utf8');
+    const decoded: InvokeResult = {
+        status: result.statusCode ?? 200,
+        headers,
+        cookies,
+        body: rawBody.toString('utf8'),
+        rawBody,
+    };
+    if ('statusDescription' in result && result.statusDescription) {
+        decoded.statusText = result.statusDescription.replace(/^\d+\s*/, '');
+    }
+    return decoded;
+}
+
+/**
+ * Options for `invoke`
+ */
+export interface InvokeOptions extends ALBEventOptions {
+    /** Event format to build. Defaults to `'v2'`. */
+    version?: EventVersion;
+    /** Lambda context. Defaults to `buildContext()`. */
+    context?: Context;
+}
+
+/**
+ * Build an event from a fetch-style request, invoke the handler with it, and
+ * decode the result for assertions.
+ */
+export async function invoke(
+    handler: (event: any, context: Context) => Promise<APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult>,
+    request: EventRequest = {},
+    options: InvokeOptions = {}
+): Promise<InvokeResult> {
+    const event = buildEvent(options.version || 'v2', request, options);
+    const result = await handler(event, options.context || buildContext());
+    return decodeResult(result);
+}
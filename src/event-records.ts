@@ -0,0 +1,144 @@
+/**
+ * Mapping of non-HTTP event records (SQS, SNS, EventBridge) to synthetic HTTP
+ * requests, so one request listener can serve API traffic and async triggers
+ */
+
+import {
+    type APIGatewayProxyEventV2,
+    type EventBridgeEvent,
+    type SNSEvent,
+    type SQSEvent,
+    isEventBridgeEvent,
+    isSNSEvent,
+    isSQSEvent,
+} from './types';
+
+/**
+ * Event source a record came from
+ */
+export type EventRecordSource = 'sqs' | 'sns' | 'eventbridge';
+
+/**
+ * A single record of a non-HTTP event and the request it becomes
+ */
+export interface EventRecordRequest {
+    /** SQS `messageId`, SNS `MessageId` or EventBridge `id` */
+    id: string;
+    source: EventRecordSource;
+    /** SQS FIFO queue: records after a failure must not be processed */
+    ordered: boolean;
+    /** The synthetic request, as an HTTP API (v2) event */
+    event: APIGatewayProxyEventV2;
+}
+
+/**
+ * Options for mapping event records to requests
+ */
+export interface EventRecordOptions {
+    /** Path prefix of synthetic requests. Defaults to `/_events`. */
+    eventPathPrefix?: string;
+}
+
+const DEFAULT_EVENT_PATH_PREFIX = '/_events';
+
+/**
+ * Last segment of an ARN, e.g. the queue name of an SQS queue ARN
+ */
+function arnResource(arn: string): string {
+    return arn.split(':').pop() || arn;
+}
+
+/**
+ * Build the HTTP API (v2) event of a synthetic `POST` request carrying `body` as JSON
+ */
+function recordEvent(prefix: string, segments: string[], source: EventRecordSource, id: string, body: unknown): APIGatewayProxyEventV2 {
+    const path = [prefix.replace(/\/+$/, ''), source, ...segments.map(encodeURIComponent)].join('/');
+    const now = new Date();
+
+    return {
+        version: '2.0',
+        routeKey: '$default',
+        rawPath: path,
+        rawQueryString: '',
+        headers: {
+            'content-type': 'application/json',
+            'x-event-source': `aws:${source}`,
+            'x-event-id': id,
+        },
+        requestContext: {
+            accountId: 'anonymous',
+            apiId: source,
+            domainName: 'localhost',
+            domainPrefix: 'localhost',
+            http: {
+                method: 'POST',
+                path,
+                protocol: 'HTTP/1.1',
+                sourceIp: '127.0.0.1',
+                userAgent: '',
+            },
+            requestId: id,
+            routeKey: '$default',
+            stage: '$default',
+            time: now.toISOString(),
+            timeEpoch: now.getTime(),
+        },
+        body: JSON.stringify(body),
+        isBase64Encoded: false,
+    };
+}
+
+/**
+ * Map the records of an SQS, SNS or EventBridge event to synthetic requests:
+ *
+ * - SQS: `POST /_events/sqs/<queue>`, one request per message
+ * - SNS: `POST /_events/sns/<topic>`, one request per notification
+ * - EventBridge: `POST /_events/eventbridge/<source>/<detail-type>`
+ *
+ * The record is the JSON body; `X-Event-Source` and `X-Event-Id` identify it.
+ *
+ * @returns The requests (none for an empty `Records` batch), or `undefined` for any other event.
+ */
+export function eventRecordRequests(
+    event: SQSEvent | SNSEvent | EventBridgeEvent<string, unknown>,
+    options: EventRecordOptions = {}
+): EventRecordRequest[] | undefined {
+    const prefix = options.eventPathPrefix ?? DEFAULT_EVENT_PATH_PREFIX;
+
+    // SQS and SNS batches are recognized by their first record
+    if ('Records' in event && Array.isArray(event.Records) && event.Records.length === 0) {
+        return [];
+    }
+
+    if (isSQSEvent(event)) {
+        return event.Records.map((record) => {
+            const queue = arnResource(record.eventSourceARN);
+            return {
+                id: record.messageId,
+                source: 'sqs',
+                ordered: queue.endsWith('.fifo'),
+                event: recordEvent(prefix, [queue], 'sqs', record.messageId, record),
+            };
+        });
+    }
+
+    if (isSNSEvent(event)) {
+        return event.Records.map((record) => ({
+            id: record.Sns.MessageId,
+            source: 'sns',
+            ordered: false,
+            event: recordEvent(prefix, [arnResource(record.Sns.TopicArn)], 'sns', record.Sns.MessageId, record),
+        }));
+    }
+
+    if (isEventBridgeEvent(event)) {
+        return [{
+            id: event.id,
+            source: 'eventbridge',
+            ordered: false,
+            event: recordEvent(prefix, [event.source, event['detail-type']], 'eventbridge', event.id, event),
+        }];
+    }
+
+    return undefined;
+}
@@ -0,0 +1,321 @@
+/**
+ * Event sources: how an invocation event becomes an HTTP request, and how the
+ * response becomes the result that invoker expects. API Gateway v1/v2, ALB and
+ * CloudFront are built in; other front doors are added with `registerEventSource`.
+ */
+
+import {
+    type APIGatewayProxyEvent,
+    type APIGatewayProxyEventV2,
+    type APIGatewayProxyResult,
+    type APIGatewayProxyResultV2,
+    type ALBEvent,
+    type ALBResult,
+    isALBEvent,
+} from './types';
+import { type LambdaResponseOptions, type ResponseParts, errorParts, toALBResult, toV1Result, toV2Result } from './lambda-response';
+import { cloudFrontEventSource } from './cloudfront';
+import { createDebugger, getClientIP, getForwardedPort, getSourceIP, isSecure } from './util';
+
+const debug = createDebugger('EventSource');
+
+/**
+ * An HTTP request as carried by an event, before `stripStage`/`basePath` apply
+ */
+export interface EventSourceRequest {
+    method: string;
+    /** Request path, URL-encoded as sent */
+    path: string;
+    /** Query string without the leading `?`, URL-encoded */
+    query: string;
+    /** Header name/value pairs in the order received, one pair per value */
+    headers: [string, string][];
+    /** Decoded request body */
+    body: Buffer | undefined;
+    /** The invoker cut the body short, e.g. CloudFront's `inputTruncated` */
+    bodyTruncated?: boolean;
+    remoteAddress: string;
+    isHttps?: boolean;
+    /** Port the client connected to */
+    localPort?: number;
+    /** e.g. `1.1`. Defaults to `1.1`. */
+    httpVersion?: string;
+    /** Stage of the API that received the request */
+    stage?: string;
+    /** Request ID assigned by the invoker (`req.apiGatewayRequestId`) */
+    requestId?: string;
+    /** Route that matched the request (`req.routeKey`) */
+    routeKey?: string;
+}
+
+/**
+ * First value of a request header, matched case-insensitively
+ */
+export function getRequestHeader(request: EventSourceRequest, name: string): string | undefined {
+    const key = name.toLowerCase();
+    return request.headers.find(([header]) => header.toLowerCase() === key)?.[1];
+}
+
+/**
+ * Adapts one kind of invocation event to HTTP requests and responses
+ */
+export interface EventSource<TEvent = unknown, TResult = unknown> {
+    /** Identifies the source in debug output, e.g. `apigateway-v2` */
+    name: string;
+    /** Whether this source handles the event */
+    matches(event: unknown): event is TEvent;
+    /** The request the event carries */
+    toRequest(event: TEvent): EventSourceRequest;
+    /** Serialize a response into the result returned to the invoker */
+    toResult(parts: ResponseParts, event: TEvent, options: LambdaResponseOptions): TResult;
+    /** Largest serialized result the invoker accepts. Defaults to `MAX_PAYLOAD_SIZE`. */
+    maxPayloadSize?(event: TEvent): number;
+}
+
+/**
+ * Merge a single-value map with its multi-value counterpart (as API Gateway v1
+ * sends `headers`/`multiValueHeaders` and `queryStringParameters`/
+ * `multiValueQueryStringParameters`).
+ *
+ * Keys keep the order of the single-value map; the multi-value map wins where
+ * both define a key, and keys only present in the multi-value map are appended.
+ */
+function multiValueEntries(
+    single: { [key: string]: string | undefined } | null | undefined,
+    multi: { [key: string]: string[] | undefined } | null | undefined,
+    ignoreCase: boolean = false
+): [string, string[]][] {
+    const normalize = (key: string) => ignoreCase ? key.toLowerCase() : key;
+    const multiByKey = new Map<string, [string, string[]]>();
+    for (const [key, values] of Object.entries(multi || {})) {
+        if (values !== undefined) {
+            multiByKey.set(normalize(key), [key, values]);
+        }
+    }
+
+    const entries: [string, string[]][] = [];
+    for (const [key, value] of Object.entries(single || {})) {
+        const multiEntry = multiByKey.get(normalize(key));
+        if (multiEntry) {
+            entries.push([key, multiEntry[1]]);
+            multiByKey.delete(normalize(key));
+        } else if (value !== undefined) {
+            entries.push([key, [value]]);
+        }
+    }
+    for (const entry of multiByKey.values()) {
+        entries.push(entry);
+    }
+    return entries;
+}
+
+/**
+ * Decode a URL-encoded query string component, leaving malformed input as-is
+ */
+function decodeQueryComponent(value: string): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Decode the event body into the bytes the client sent, honoring `isBase64Encoded`
+ */
+function decodeBody(event: { body?: string | null, isBase64Encoded?: boolean }): Buffer | undefined {
+    if (!event.body) {
+        return undefined;
+    }
+    return Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'utf8');
+}
+
+/**
+ * Build a query string from v1/ALB query parameter maps. API Gateway decodes
+ * the parameters; ALB passes them through URL-encoded, so `decode` is needed.
+ */
+function queryFromParameters(event: APIGatewayProxyEvent | ALBEvent, decode: (value: string) => string): string {
+    const params = new URLSearchParams();
+    for (const [key, values] of multiValueEntries(event.queryStringParameters, event.multiValueQueryStringParameters)) {
+        for (const value of values) {
+            params.append(decode(key), decode(value));
+        }
+    }
+    return params.toString();
+}
+
+/**
+ * Header pairs of a v1 or ALB event, from `multiValueHeaders` where present
+ */
+function headersFromMaps(event: APIGatewayProxyEvent | ALBEvent): [string, string][] {
+    const entries: [string, string][] = [];
+    for (const [name, values] of multiValueEntries(event.headers, event.multiValueHeaders, true)) {
+        for (const value of values) {
+            entries.push([name, value]);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Connection details shared by the built-in sources
+ */
+function connectionInfo(event: APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent): Pick<EventSourceRequest, 'remoteAddress' | 'isHttps' | 'localPort'> {
+    return {
+        remoteAddress: getSourceIP(event) || getClientIP(event),
+        isHttps: isSecure(event),
+        localPort: getForwardedPort(event),
+    };
+}
+
+/**
+ * Application Load Balancer target group events
+ */
+export const albEventSource: EventSource<ALBEvent, ALBResult> = {
+    name: 'alb',
+    matches: (event: any): event is ALBEvent =>
+        isALBEvent(event) && typeof event.httpMethod === 'string' && typeof event.path === 'string',
+    toRequest: (event) => ({
+        method: event.httpMethod,
+        path: event.path,
+        query: queryFromParameters(event, decodeQueryComponent),
+        headers: headersFromMaps(event),
+        body: decodeBody(event),
+        ...connectionInfo(event),
+    }),
+    toResult: (parts, event, options) => toALBResult(parts, event, options),
+};
+
+/**
+ * API Gateway HTTP API (v2) and Function URL events
+ */
+export const apiGatewayV2EventSource: EventSource<APIGatewayProxyEventV2, APIGatewayProxyResultV2> = {
+    name: 'apigateway-v2',
+    matches: (event: any): event is APIGatewayProxyEventV2 =>
+        !!event && event.version === '2.0' && typeof event.rawPath === 'string' && !!event.requestContext?.http,
+    toRequest: (event) => {
+        // v2 carries cookies in a separate `cookies` array, which becomes a single `cookie` header
+        const cookies = event.cookies || [];
+        const headers: [string, string][] = Object.entries(event.headers || {})
+            .filter((entry): entry is [string, string] => entry[1] !== undefined)
+            .filter(([name]) => !cookies.length || name.toLowerCase() !== 'cookie');
+        if (cookies.length) {
+            headers.push(['cookie', cookies.join('; ')]);
+        }
+
+        // `queryStringParameters` joins repeated keys with commas; the raw string keeps them apart
+        let query = event.rawQueryString || '';
+        if (event.rawQueryString === undefined && event.queryStringParameters) {
+            const params = new URLSearchParams();
+            for (const [key, value] of Object.entries(event.queryStringParameters)) {
+                if (value !== undefined) {
+                    params.append(key, value);
+                }
+            }
+            query = params.toString();
+        }
+
+        return {
+            method: event.requestContext.http.method,
+            path: event.rawPath,
+            query,
+            headers,
+            body: decodeBody(event),
+            ...connectionInfo(event),
+            httpVersion: event.requestContext.http.protocol?.replace('HTTP/', ''),
+            stage: event.requestContext.stage,
+            requestId: event.requestContext.requestId,
+            routeKey: event.routeKey || undefined,
+        };
+    },
+    toResult: (parts, _event, options) => toV2Result(parts, options),
+};
+
+/**
+ * API Gateway REST API (v1) events
+ */
+export const apiGatewayV1EventSource: EventSource<APIGatewayProxyEvent, APIGatewayProxyResult> = {
+    name: 'apigateway-v1',
+    matches: (event: any): event is APIGatewayProxyEvent =>
+        !!event && typeof event.httpMethod === 'string' && typeof event.path === 'string' && !isALBEvent(event),
+    toRequest: (event) => {
+        const requestContext: Partial<APIGatewayProxyEvent['requestContext']> = event.requestContext || {};
+        return {
+            method: event.httpMethod,
+            path: event.path,
+            query: queryFromParameters(event, (value) => value),
+            headers: headersFromMaps(event),
+            body: decodeBody(event),
+            ...connectionInfo(event),
+            httpVersion: requestContext.protocol?.replace('HTTP/', ''),
+            stage: requestContext.stage,
+            requestId: requestContext.requestId,
+            routeKey: event.resource ? `${event.httpMethod} ${event.resource}` : undefined,
+        };
+    },
+    toResult: (parts, _event, options) => toV1Result(parts, options),
+};
+
+const builtInEventSources: EventSource[] = [albEventSource, apiGatewayV2EventSource, apiGatewayV1EventSource, cloudFrontEventSource];
+const customEventSources: EventSource[] = [];
+
+/**
+ * Register a custom event source. Sources registered later are tried first, and
+ * all custom sources are tried before the built-in ones.
+ *
+ * @returns A function that removes the source again.
+ */
+export function registerEventSource(source: EventSource): () => void {
+    debug('registerEventSource', source.name);
+    customEventSources.unshift(source);
+    return () => {
+        const index = customEventSources.indexOf(source);
+        if (index >= 0) {
+            customEventSources.splice(index, 1);
+        }
+    };
+}
+
+/**
+ * Find the event source that handles an event
+ *
+ * @returns The source, or `undefined` when no registered source matches.
+ */
+export function findEventSource(event: unknown): EventSource | undefined {
+    return [...customEventSources, ...builtInEventSources].find((source) => source.matches(event));
+}
+
+/**
+ * Find the event source that handles an event, for code that cannot proceed without one
+ *
+ * @throws When no registered source matches.
+ */
+export function requireEventSource(event: unknown): EventSource {
+    const source = findEventSource(event);
+    if (!source) {
+        throw new Error('Unsupported event source');
+    }
+    return source;
+}
+
+/**
+ * Build the result shape matching the event that started the invocation
+ *
+ * @throws When no registered source handles the event.
+ */
+export function toLambdaResult(parts: ResponseParts, event: unknown, options: LambdaResponseOptions = {}): unknown {
+    return requireEventSource(event).toResult(parts, event, options);
+}
+
+/**
+ * Build a JSON error result shaped for the event source, for when the
+ * request listener could not produce a response. Events no source handles,
+ * such as a malformed event, get a REST API (v1) result.
+ */
+export function errorResult(event: unknown, statusCode: number): unknown {
+    const source = findEventSource(event);
+    if (!source) {
+        return toV1Result(errorParts(statusCode));
+    }
+    return source.toResult(errorParts(statusCode), event, {});
+}
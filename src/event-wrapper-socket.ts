@@ -1,5 +1,5 @@
 import { Duplex } from 'stream';
-import { type AddressInfo, type Socket, type SocketReadyState } from 'net';
+import { type AddressInfo, type Socket, type SocketReadyState, isIPv6 } from 'net';
 import { createDebugger, prettyPrintBuffer } from './util';
 
 const debug = createDebugger('EventWrapperSocket');
@@ -10,6 +10,7 @@ export type EventWrapperSocketOptions = {
     localPort?: number;
     localFamily?: string;
     remoteAddress?: string;
+    remoteFamily?: string;
 }
 
 // EventWrapperSocket: a stub for a net.Socket that emits body data as stream events
@@ -34,7 +35,8 @@ export class EventWrapperSocket extends Duplex implements Socket {
         this.localFamily = options.localFamily || 'IPv4';
         this.localAddress = options.localAddress || '127.0.0.1';
         this.remoteAddress = options.remoteAddress || '127.0.0.1';
-        this.remoteFamily = options.localFamily || 'IPv4';
+        this.remoteFamily = options.remoteFamily || (isIPv6(this.remoteAddress) ? 'IPv6' : 'IPv4');
+        this.encrypted = !!options.isHttps;
         this.remotePort = 65534;
 
         this.on('end', () => {
@@ -55,20 +57,26 @@ export class EventWrapperSocket extends Duplex implements Socket {
         return this;
     }
 
-    // Register timeout
+    // Register timeout; like net.Socket, the callback becomes a one-time 'timeout' listener
     setTimeout(timeout: number, callback?: () => void): this {
+        this._timeout?.cancel();
+        this._timeout = undefined;
+
         if (timeout === 0) {
-            this._timeout?.cancel();
+            if (callback) {
+                this.removeListener('timeout', callback);
+            }
             return this;
         }
 
-        this._timeout?.cancel();
-        let cb = () => {
-            this.emit('timeout');
-            callback?.();
-            this._timeout = undefined;
+        if (callback) {
+            this.once('timeout', callback);
         }
-        this._timeout = new BasicTimeout(cb, timeout);
+        this.timeout = timeout;
+        this._timeout = new BasicTimeout(() => {
+            this._timeout = undefined;
+            this.emit('timeout');
+        }, timeout);
         return this;
     }
     
@@ -111,21 +119,26 @@ export class EventWrapperSocket extends Duplex implements Socket {
     
     public bytesWritten: number = 0;
 
+    /**
+     * Set when the client connected over HTTPS, like `tls.TLSSocket#encrypted`
+     */
+    encrypted: boolean = false;
+
     connecting: boolean = false;
     pending: boolean = false;
 
-    localAddress?: string | undefined = undefined;
+    localAddress: string | undefined = undefined;
 
     get localPort(): number | undefined {
         return this._localPort;
     }
 
-    localFamily?: string | undefined = undefined;
+    localFamily: string | undefined = undefined;
     readyState: SocketReadyState = "open";
-    remoteAddress?: string | undefined = undefined;
-    remoteFamily?: string | undefined = undefined;
-    remotePort?: number | undefined = undefined;
-    timeout?: number | undefined = undefined;
+    remoteAddress: string | undefined = undefined;
+    remoteFamily: string | undefined = undefined;
+    remotePort: number | undefined = undefined;
+    timeout: number | undefined = undefined;
 
     override _read(size: number) {
         this._debug('read', size);
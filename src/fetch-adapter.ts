@@ -0,0 +1,131 @@
+/**
+ * Conversions between Lambda HTTP events/results and the WHATWG Fetch API
+ * `Request`/`Response`, for frameworks such as Hono, Remix, SvelteKit and
+ * Next.js route handlers
+ */
+
+import { LambdaIncomingMessage, type LambdaIncomingMessageOptions } from './lambda-incoming-message';
+import { compressResponse } from './compression';
+import { type LambdaResponseOptions, type ResponseParts, type SerializedResult, serializeResult } from './lambda-response';
+import { type EventSourceRequest, getRequestHeader, requireEventSource } from './event-source';
+import { correlationIdFromRequest } from './tracing';
+import { HOP_BY_HOP_HEADERS } from './util';
+
+/**
+ * Options for `toFetchRequest`
+ */
+export interface FetchRequestOptions extends LambdaIncomingMessageOptions {
+    /** Signal attached to the `Request`, e.g. one aborted at the invocation deadline */
+    signal?: AbortSignal;
+}
+
+/**
+ * Build a WHATWG `Request` from a Lambda HTTP event, or from the
+ * `LambdaIncomingMessage` already built from one.
+ *
+ * The URL, method and headers are the ones a `LambdaIncomingMessage` would
+ * present (including `stripStage`/`basePath`), and the decoded body is exposed
+ * as a `ReadableStream`.
+ */
+export function toFetchRequest(
+    event: unknown,
+    options: FetchRequestOptions = {}
+): Request {
+    const message = event instanceof LambdaIncomingMessage ? event : new LambdaIncomingMessage(event, undefined, options);
+    const method = message.method || 'GET';
+
+    const { requestContext } = (message.lambdaEvent || {}) as { requestContext?: { domainName?: string } };
+    const host = message.headers.host || requestContext?.domainName || 'localhost';
+    const url = new URL(message.url || '/', `${message.encrypted ? 'https' : 'http'}://${host}`);
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(message.headers)) {
+        if (value === undefined || HOP_BY_HOP_HEADERS.has(name)) {
+            continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+            headers.append(name, item);
+        }
+    }
+
+    const init: RequestInit & { duplex?: 'half' } = { method, headers, signal: options.signal };
+    const body = message.sourceRequest.body;
+    if (body && method !== 'GET' && method !== 'HEAD') {
+        init.body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new Uint8Array(body));
+                controller.close();
+            },
+        });
+        // Node requires this for streaming request bodies
+        init.duplex = 'half';
+    }
+
+    return new Request(url, init);
+}
+
+/**
+ * Convert a WHATWG `Response` into the Lambda result matching the event, with
+ * the same cookie, multi-value header and base64 rules `LambdaResponse` uses.
+ *
+ * The correlation ID and `Accept-Encoding` are read from `request`, the
+ * request the event source built from `event` (`req.sourceRequest`); it is
+ * built again from `event` when not given.
+ */
+export async function fromFetchResponse(
+    response: Response,
+    event: unknown,
+    options: Pick<LambdaResponseOptions, 'binaryMediaTypes' | 'compression' | 'payloadLimit' | 'correlationIdHeader'> = {},
+    request?: EventSourceRequest
+): Promise<unknown> {
+    return (await serializeFetchResponse(response, event, options, request)).result;
+}
+
+/**
+ * `fromFetchResponse`, also returning the response parts the result was serialized from
+ */
+export async function serializeFetchResponse(
+    response: Response,
+    event: unknown,
+    options: Pick<LambdaResponseOptions, 'binaryMediaTypes' | 'compression' | 'payloadLimit' | 'correlationIdHeader'> = {},
+    request?: EventSourceRequest
+): Promise<SerializedResult> {
+    const source = requireEventSource(event);
+    const sourceRequest = () => request ??= source.toRequest(event);
+
+    const parts: ResponseParts = {
+        statusCode: response.status,
+        statusMessage: response.statusText || undefined,
+        headers: {},
+        multiValueHeaders: {},
+        body: Buffer.from(await response.arrayBuffer()),
+    };
+
+    // `Headers` lower-cases names and joins repeated values, except `Set-Cookie`
+    response.headers.forEach((value, name) => {
+        if (name !== 'set-cookie' && !HOP_BY_HOP_HEADERS.has(name)) {
+            parts.headers[name] = value;
+        }
+    });
+
+    const correlationIdHeader = options.correlationIdHeader?.toLowerCase();
+    if (correlationIdHeader && parts.headers[correlationIdHeader] === undefined) {
+        const correlationId = correlationIdFromRequest(sourceRequest(), correlationIdHeader);
+        if (correlationId) {
+            parts.headers[correlationIdHeader] = correlationId;
+        }
+    }
+
+    const cookies = response.headers.getSetCookie();
+    if (cookies.length === 1) {
+        parts.headers['set-cookie'] = cookies[0];
+    } else if (cookies.length > 1) {
+        parts.multiValueHeaders['set-cookie'] = cookies;
+    }
+
+    const compression = options.compression;
+    const compressed = compression
+        ? compressResponse(parts, getRequestHeader(sourceRequest(), 'accept-encoding'), compression === true ? {} : compression)
+        : parts;
+    return serializeResult(compressed, event, options, source);
+}
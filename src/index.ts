@@ -6,63 +6,109 @@
  * to be used with AWS Lambda functions.
  */
 
-import { type APIGatewayEvent, type APIGatewayProxyEvent, type APIGatewayProxyEventV2, type APIGatewayProxyResult, type APIGatewayProxyResultV2 } from './types';
+import { type APIGatewayEvent, type APIGatewayProxyEvent, type APIGatewayProxyEventV2, type APIGatewayProxyResult, type APIGatewayProxyResultV2, type APIGatewayProxyStructuredResultV2, type ALBEvent, type ALBResult } from './types';
 import { type Context } from 'aws-lambda';
-import { detectApiGatewayVersion, validateApiGatewayEvent } from './types';
+import { type CloudFrontRequestEvent, type CloudFrontResultResponse, type EventBridgeEvent, type SNSEvent, type SQSBatchResponse, type SQSEvent, isSQSEvent } from './types';
 import { type IncomingMessage, type ServerResponse } from 'http';
 
-import { LambdaIncomingMessage } from './lambda-incoming-message';
-import { LambdaResponse } from './lambda-response';
+import { LambdaIncomingMessage, type LambdaIncomingMessageOptions } from './lambda-incoming-message';
+import { LambdaResponse, type LambdaResponseOptions, type SerializedResult, errorParts } from './lambda-response';
+import { errorResult, findEventSource } from './event-source';
+import { type LambdaResponseStream, type StreamingHandler, streamifyResponse, writeStreamingResult } from './lambda-response-stream';
+import { serializeFetchResponse, toFetchRequest } from './fetch-adapter';
+import { type AccessLogOptions, type InvocationTiming, logAccess, startInvocation } from './access-log';
+import { type TracedInvocation, type TracingHook, createTracedInvocation } from './tracing';
+import { decodeResult } from './event-builders';
+import { type EventRecordOptions, type EventRecordSource, eventRecordRequests } from './event-records';
+import { type WebSocketEvent, toWebSocketRequestEvent } from './websocket';
+import { createDebugger, enableDebug } from './util';
+
+const debug = createDebugger('handler');
 
 
 export * from './types';
 export * from './lambda-writable';
 export * from './lambda-incoming-message';
 export * from './lambda-response';
+export * from './event-source';
+export * from './lambda-response-stream';
+export * from './authorizer';
+export * from './fetch-adapter';
+export * from './compression';
+export * from './access-log';
+export * from './tracing';
+export * from './event-builders';
+export * from './event-records';
+export * from './websocket';
+export * from './cloudfront';
+export * from './local-server';
 
 
 /**
  * Options for creating a Lambda handler
  */
-export interface HandlerOptions {
+export interface HandlerOptions extends LambdaIncomingMessageOptions, LambdaResponseOptions {
     /** Enable debug logging */
     debug?: boolean;
-    /** Custom error handler */
-    errorHandler?: (error: Error, event: any, context: Context) => Promise<APIGatewayProxyResult | APIGatewayProxyResultV2>;
+    /** Custom error handler, returning the result for the event's source */
+    errorHandler?: (error: Error, event: any, context: Context) => Promise<unknown>;
     /** Request timeout in milliseconds */
     timeout?: number;
+    /**
+     * Time in milliseconds reserved before Lambda's own deadline
+     * (`context.getRemainingTimeInMillis()`) for returning the timeout result.
+     * Defaults to 500.
+     */
+    timeoutMargin?: number;
+    /** Result returned when the deadline is reached. Defaults to a 504 JSON result. */
+    timeoutResult?: (event: any, context: Context) => unknown;
+    /** Write a JSON access log line after each invocation */
+    accessLog?: boolean | AccessLogOptions;
+    /** Wrap each invocation, e.g. in an OpenTelemetry span */
+    tracing?: TracingHook;
 }
 
+const DEFAULT_TIMEOUT_MARGIN = 500;
+
+/**
+ * Any Node.js `http` request listener: an Express app, Koa's `app.callback()`,
+ * Fastify's `routing`, or a plain `(req, res) => void` function
+ */
+export type RequestListener = (req: IncomingMessage, res: ServerResponse) => unknown;
+
+/**
+ * Lambda handler returned by `createHandler`
+ */
+export type LambdaHandler = (
+    event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent,
+    context: Context
+) => Promise<APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult>;
+
 /**
  * Main handler function that converts Lambda events to Express requests
  * and processes them through an Express application
  */
 export async function appify(
-    event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2,
+    event: unknown,
     context: Context,
     options: HandlerOptions = {}
 ): Promise<{
-    result: Promise<APIGatewayProxyResult | APIGatewayProxyResultV2>,
-    request: IncomingMessage,
-    response: ServerResponse
+    result: Promise<unknown>,
+    request: LambdaIncomingMessage,
+    response: LambdaResponse
 }> {
 
     // Validate the event
-    if (!validateApiGatewayEvent(event)) {
-        throw new Error('Invalid API Gateway event');
+    if (!findEventSource(event)) {
+        throw new Error('Unsupported event source');
     }
 
-    const { request, response } = createRequestResponsePair(event);
+    const { request, response } = createRequestResponsePair(event, options, context);
 
-    let promise: Promise<APIGatewayProxyResult | APIGatewayProxyResultV2> = new Promise((resolve, reject) => {
+    let promise: Promise<unknown> = new Promise((resolve, reject) => {
         response.on('finish', () => {
-            // Return the appropriate response format based on API Gateway version
-            const version = detectApiGatewayVersion(event);
-            if (version === 'v2') {
-                resolve((response as any).lambdaResponseV2());
-            } else {
-                resolve((response as any).lambdaResponse());
-            }
+            // Return the appropriate response format based on the event source
+            response.finalizeLambdaResponse().then(resolve, reject);
         });
         response.on('error', reject);
     });
@@ -83,15 +129,459 @@ export async function appify(
  *  It is not used by the library itself, but it is used by the test suite.
  * 
  *  @param event The Lambda event to create a request and response pair from.
+ *  @param options Options for building the request and serializing the response.
+ *  @param context The Lambda context of the invocation, attached to the request.
  *  @returns A request and response pair.
  * 
 */
-export function createRequestResponsePair(event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2): { request: LambdaIncomingMessage, response: LambdaResponse } {
-    const request = new LambdaIncomingMessage(event) as any;
-    const response = new LambdaResponse(request as unknown as LambdaIncomingMessage) as any;
+export function createRequestResponsePair(event: unknown, options: LambdaIncomingMessageOptions & LambdaResponseOptions = {}, context?: Context): { request: LambdaIncomingMessage, response: LambdaResponse } {
+    const request = new LambdaIncomingMessage(event, context, options) as any;
+    const response = new LambdaResponse(request as unknown as LambdaIncomingMessage, options) as any;
 
     response.req = request;
     request.res = response;
 
     return { request, response };
 }
+
+
+
+/**
+ * Create a Lambda handler from a Node.js request listener.
+ *
+ * @param app The request listener to dispatch each event to.
+ * @param options Handler options.
+ * @returns An `async (event, context) => result` Lambda handler.
+ */
+export function createHandler(app: RequestListener, options: HandlerOptions = {}): LambdaHandler {
+    if (options.debug) {
+        enableDebug();
+    }
+
+    return (event, context) => expressify(app, event, context, options);
+}
+
+/**
+ * Create a Lambda handler from a Node.js request listener with custom options.
+ *
+ * Equivalent to `createHandler(app, options)`.
+ */
+export function createHandlerWithOptions(app: RequestListener, options: HandlerOptions): LambdaHandler {
+    return createHandler(app, options);
+}
+
+/**
+ * Process a single Lambda event through a request listener and return the
+ * result of its event source: an API Gateway or ALB result, a CloudFront
+ * generated response, or whatever a custom event source returns.
+ *
+ * Errors thrown (or rejected) by the listener, invalid events and timeouts are
+ * passed to `options.errorHandler` when set; otherwise a 500 result is returned.
+ */
+export async function expressify(
+    app: RequestListener,
+    event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent,
+    context: Context,
+    options?: HandlerOptions
+): Promise<APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult>;
+export async function expressify(
+    app: RequestListener,
+    event: CloudFrontRequestEvent,
+    context: Context,
+    options?: HandlerOptions
+): Promise<CloudFrontResultResponse>;
+export async function expressify(app: RequestListener, event: unknown, context: Context, options?: HandlerOptions): Promise<unknown>;
+export async function expressify(
+    app: RequestListener,
+    event: unknown,
+    context: Context,
+    options: HandlerOptions = {}
+): Promise<unknown> {
+    return runInvocation(event, context, options, (timing) => dispatchToListener(app, event, context, options, timing));
+}
+
+async function dispatchToListener(
+    app: RequestListener,
+    event: unknown,
+    context: Context,
+    options: HandlerOptions,
+    timing: InvocationTiming
+): Promise<unknown> {
+    let streamed: LambdaResponse | undefined;
+
+    try {
+        return await dispatchWithDeadline(event, context, options, timing, async () => {
+            const { result, request, response } = await appify(event, context, options);
+            timing.request = request.sourceRequest;
+            if (options.responseStream) {
+                streamed = response;
+            }
+
+            const failure = new Promise<never>((_resolve, reject) => {
+                request.on('error', reject);
+                try {
+                    const returned = app(request, response) as PromiseLike<unknown> | undefined;
+                    if (returned && typeof returned.then === 'function') {
+                        returned.then(undefined, reject);
+                    }
+                } catch (e) {
+                    reject(e);
+                }
+            });
+
+            return {
+                pending: [result.then((value) => ({ result: value, parts: response.resultParts })), failure],
+                abort: () => {
+                    request.abortOnDeadline();
+                    response.discard();
+                },
+            };
+        });
+    } finally {
+        // The access log counts streamed bytes, which never reach the result
+        if (streamed) {
+            timing.streamedBytes = streamed.streamedBytes;
+        }
+    }
+}
+
+/**
+ * A dispatched invocation: the results it may settle with, and how to cancel it
+ * when the deadline is reached
+ */
+interface Dispatch {
+    pending: Promise<SerializedResult>[];
+    abort: () => void;
+}
+
+/**
+ * Race a dispatched invocation against the invocation deadline, answering with
+ * `options.timeoutResult` when it is reached, and turn errors into
+ * `options.errorHandler`'s result or a 500 result
+ */
+async function dispatchWithDeadline(
+    event: unknown,
+    context: Context,
+    options: HandlerOptions,
+    timing: InvocationTiming,
+    dispatch: () => Dispatch | Promise<Dispatch>
+): Promise<unknown> {
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        const { pending, abort } = await dispatch();
+
+        const deadline = invocationDeadline(context, options);
+        if (deadline !== undefined) {
+            pending.push(new Promise((resolve, reject) => {
+                timer = setTimeout(() => {
+                    debug('deadline reached after %dms; aborting request', deadline);
+                    abort();
+                    if (options.timeoutResult) {
+                        Promise.resolve(options.timeoutResult(event, context))
+                            .then((result) => resolve({ result, parts: undefined }), reject);
+                    } else {
+                        resolve({ result: errorResult(event, 504), parts: errorParts(504) });
+                    }
+                }, deadline);
+            }));
+        }
+
+        const { result, parts } = await Promise.race(pending);
+        timing.response = parts;
+        return result;
+    } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        debug('handler error', error);
+
+        if (options.errorHandler) {
+            return options.errorHandler(error, event, context);
+        }
+        timing.response = errorParts(500);
+        return errorResult(event, 500);
+    } finally {
+        if (timer) {
+            clearTimeout(timer);
+        }
+    }
+}
+
+/**
+ * Run a single invocation inside the `options.tracing` hook and, when
+ * `options.accessLog` is set, write its access log entry once the result is ready
+ */
+async function runInvocation(
+    event: unknown,
+    context: Context,
+    options: HandlerOptions,
+    run: (timing: InvocationTiming) => Promise<unknown>
+): Promise<unknown> {
+    const timing = startInvocation();
+
+    // Malformed events are answered by `run` with the error result, not traced
+    let invocation: TracedInvocation | undefined;
+    if (options.tracing) {
+        try {
+            invocation = createTracedInvocation(event, context);
+        } catch (e) {
+            debug('tracing: cannot describe the invocation', e);
+        }
+    }
+
+    const result = options.tracing && invocation
+        ? await options.tracing(invocation, () => run(timing))
+        : await run(timing);
+    if (options.accessLog) {
+        logAccess(event, context, result, timing, options.accessLog === true ? {} : options.accessLog);
+    }
+    return result;
+}
+
+/**
+ * Milliseconds the listener may run: the smaller of `options.timeout` and the
+ * invocation's remaining time less `options.timeoutMargin`
+ */
+function invocationDeadline(context: Context, options: HandlerOptions): number | undefined {
+    const limits: number[] = [];
+    if (options.timeout && options.timeout > 0) {
+        limits.push(options.timeout);
+    }
+    if (typeof context?.getRemainingTimeInMillis === 'function') {
+        limits.push(context.getRemainingTimeInMillis() - (options.timeoutMargin ?? DEFAULT_TIMEOUT_MARGIN));
+    }
+    if (limits.length === 0) {
+        return undefined;
+    }
+    return Math.max(Math.min(...limits), 0);
+}
+
+
+/**
+ * Create a response-streaming Lambda handler (Function URL `RESPONSE_STREAM`
+ * invoke mode) from a Node.js request listener.
+ *
+ * Each `res.write()` chunk is written to the Lambda response stream as soon as
+ * it is written. Inside the Lambda runtime the handler is wrapped with
+ * `awslambda.streamifyResponse`; elsewhere it can be called directly with any
+ * `Writable` standing in for the response stream.
+ */
+export function createStreamingHandler(app: RequestListener, options: HandlerOptions = {}): StreamingHandler<APIGatewayProxyEventV2> {
+    if (options.debug) {
+        enableDebug();
+    }
+
+    return streamifyResponse((event, responseStream, context) => expressifyStream(app, event, responseStream, context, options));
+}
+
+/**
+ * Process a single Lambda event through a request listener, streaming the
+ * response to `responseStream`.
+ *
+ * Error results (from `options.errorHandler` or the default 500) are written to
+ * the stream when the listener had not started responding.
+ */
+export async function expressifyStream(
+    app: RequestListener,
+    event: APIGatewayProxyEventV2,
+    responseStream: LambdaResponseStream,
+    context: Context,
+    options: HandlerOptions = {}
+): Promise<void> {
+    const result = await expressify(app, event, context, { ...options, responseStream });
+    writeStreamingResult(responseStream, result as APIGatewayProxyStructuredResultV2);
+}
+
+/**
+ * A WHATWG Fetch API handler, e.g. Hono's `app.fetch`
+ */
+export type FetchHandler = (request: Request, context: Context) => Response | Promise<Response>;
+
+/**
+ * Create a Lambda handler from a Fetch API handler.
+ *
+ * Each event is converted to a `Request` whose `signal` aborts at the invocation
+ * deadline, and the returned `Response` is converted to the matching result.
+ */
+export function createFetchHandler(fetchHandler: FetchHandler, options: HandlerOptions = {}): LambdaHandler {
+    if (options.debug) {
+        enableDebug();
+    }
+
+    return (event, context) => fetchify(fetchHandler, event, context, options);
+}
+
+/**
+ * Process a single Lambda event through a Fetch API handler and return the
+ * result of its event source, with the same error and deadline handling as `expressify`.
+ */
+export async function fetchify(
+    fetchHandler: FetchHandler,
+    event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent,
+    context: Context,
+    options?: HandlerOptions
+): Promise<APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult>;
+export async function fetchify(
+    fetchHandler: FetchHandler,
+    event: CloudFrontRequestEvent,
+    context: Context,
+    options?: HandlerOptions
+): Promise<CloudFrontResultResponse>;
+export async function fetchify(fetchHandler: FetchHandler, event: unknown, context: Context, options?: HandlerOptions): Promise<unknown>;
+export async function fetchify(
+    fetchHandler: FetchHandler,
+    event: unknown,
+    context: Context,
+    options: HandlerOptions = {}
+): Promise<unknown> {
+    return runInvocation(event, context, options, (timing) => dispatchToFetchHandler(fetchHandler, event, context, options, timing));
+}
+
+async function dispatchToFetchHandler(
+    fetchHandler: FetchHandler,
+    event: unknown,
+    context: Context,
+    options: HandlerOptions,
+    timing: InvocationTiming
+): Promise<unknown> {
+    return dispatchWithDeadline(event, context, options, timing, () => {
+        if (!findEventSource(event)) {
+            throw new Error('Unsupported event source');
+        }
+
+        const controller = new AbortController();
+        const message = new LambdaIncomingMessage(event, context, options);
+        timing.request = message.sourceRequest;
+        const request = toFetchRequest(message, { signal: controller.signal });
+        const result = Promise.resolve()
+            .then(() => fetchHandler(request, context))
+            .then((response) => serializeFetchResponse(response, event, options, message.sourceRequest));
+
+        return {
+            pending: [result],
+            abort: () => controller.abort(new DOMException('The invocation deadline was reached', 'TimeoutError')),
+        };
+    });
+}
+
+/**
+ * Create a Lambda handler for an API Gateway WebSocket API from a request listener.
+ *
+ * Each event becomes a `POST /<routeKey>` request (`/$connect`, `/$disconnect`,
+ * `/$default` or a custom route) with the connection on `req.webSocket`, and the
+ * response becomes the route response. Set `webSocketConnections` to let
+ * handlers push messages with `req.webSocket.send()`.
+ */
+export function createWebSocketHandler(
+    app: RequestListener,
+    options: HandlerOptions = {}
+): (event: WebSocketEvent, context: Context) => Promise<APIGatewayProxyResult> {
+    if (options.debug) {
+        enableDebug();
+    }
+
+    return (event, context) => expressify(app, toWebSocketRequestEvent(event), context, options) as Promise<APIGatewayProxyResult>;
+}
+
+/**
+ * Create a Lambda@Edge handler for CloudFront viewer or origin request events
+ * from a request listener. The response becomes a CloudFront generated response;
+ * see `cloudFrontEventSource`.
+ */
+export function createCloudFrontHandler(
+    app: RequestListener,
+    options: HandlerOptions = {}
+): (event: CloudFrontRequestEvent, context: Context) => Promise<CloudFrontResultResponse> {
+    if (options.debug) {
+        enableDebug();
+    }
+
+    return (event, context) => expressify(app, event, context, options);
+}
+
+/**
+ * Options for dispatching SQS, SNS and EventBridge events to a request listener
+ */
+export interface EventHandlerOptions extends HandlerOptions, EventRecordOptions {}
+
+/**
+ * Outcome of dispatching a non-HTTP event
+ */
+export interface EventDispatchResult {
+    /** Status code of each record's synthetic request, in record order */
+    records: { id: string, source: EventRecordSource, status: number }[];
+    /** SQS only: the messages to retry, i.e. those answered with a 5xx status */
+    batchItemFailures?: { itemIdentifier: string }[];
+}
+
+/**
+ * Dispatch each record of an SQS, SNS or EventBridge event to a request listener
+ * as a synthetic `POST /_events/<source>/...` request (see `eventRecordRequests`),
+ * one at a time and in order.
+ *
+ * Records answered with a 5xx status have failed. For SQS FIFO queues, the
+ * records after the first failure are not dispatched and fail too, to preserve
+ * ordering on retry.
+ */
+export async function dispatchEvent(
+    app: RequestListener,
+    event: SQSEvent | SNSEvent | EventBridgeEvent<string, unknown>,
+    context: Context,
+    options: EventHandlerOptions = {}
+): Promise<EventDispatchResult> {
+    const requests = eventRecordRequests(event, options);
+    if (!requests) {
+        throw new Error('Unsupported event source');
+    }
+
+    const records: EventDispatchResult['records'] = [];
+    let failed = false;
+    for (const { id, source, ordered, event: requestEvent } of requests) {
+        if (failed && ordered) {
+            debug('dispatchEvent: skipping %s after an earlier failure', id);
+            records.push({ id, source, status: 503 });
+            continue;
+        }
+
+        const result = await expressify(app, requestEvent, context, options);
+        const status = decodeResult(result).status;
+        debug('dispatchEvent: %s %s -> %d', source, id, status);
+        records.push({ id, source, status });
+        failed = failed || status >= 500;
+    }
+
+    const dispatchResult: EventDispatchResult = { records };
+    if (isSQSEvent(event)) {
+        dispatchResult.batchItemFailures = records
+            .filter((record) => record.status >= 500)
+            .map((record) => ({ itemIdentifier: record.id }));
+    }
+    return dispatchResult;
+}
+
+/**
+ * Create a Lambda handler for SQS, SNS and EventBridge triggers from a request listener.
+ *
+ * SQS invocations return `batchItemFailures` (enable `ReportBatchItemFailures`
+ * on the event source mapping). SNS and EventBridge invocations throw when a
+ * record fails, so Lambda retries the asynchronous invocation.
+ */
+export function createEventHandler(
+    app: RequestListener,
+    options: EventHandlerOptions = {}
+): (event: SQSEvent | SNSEvent | EventBridgeEvent<string, unknown>, context: Context) => Promise<SQSBatchResponse | void> {
+    if (options.debug) {
+        enableDebug();
+    }
+
+    return async (event, context) => {
+        const { records, batchItemFailures } = await dispatchEvent(app, event, context, options);
+        if (batchItemFailures) {
+            return { batchItemFailures };
+        }
+
+        const failures = records.filter((record) => record.status >= 500);
+        if (failures.length > 0) {
+            throw new Error(`Event records failed: ${failures.map((record) => `${record.id} (${record.status})`).join(', ')}`);
+        }
+    };
+}
@@ -1,26 +1,95 @@
 import { type IncomingHttpHeaders, type IncomingMessage } from 'http';
 import { Socket } from 'net';
 
-import { type APIGatewayEvent, type APIGatewayProxyEvent, type APIGatewayProxyEventV2 } from './types';
+import { type Context } from './types';
 import { EventWrapperSocket } from './event-wrapper-socket';
+import { type LambdaAuth, getLambdaAuth } from './authorizer';
+import { type TraceContext, traceContextFromHeaders } from './tracing';
+import { type EventSource, type EventSourceRequest, getRequestHeader, requireEventSource } from './event-source';
+import { type WebSocketConnections, type WebSocketRequestInfo, getWebSocketRequestInfo } from './websocket';
 import { createDebugger } from './util';
 
 const debug = createDebugger('LambdaIncomingMessage');
 
+/**
+ * Headers whose duplicates Node's `IncomingMessage` discards instead of joining
+ */
+const DISCARD_DUPLICATE_HEADERS = new Set([
+    'age', 'authorization', 'content-length', 'content-type', 'etag', 'expires',
+    'from', 'host', 'if-modified-since', 'if-unmodified-since', 'last-modified',
+    'location', 'max-forwards', 'proxy-authorization', 'referer', 'retry-after',
+    'server', 'user-agent',
+]);
+
+/**
+ * Options controlling how a `LambdaIncomingMessage` is built from an event
+ */
+export interface LambdaIncomingMessageOptions {
+    /**
+     * Base path of a custom domain mapping (e.g. `/api`), removed from the start
+     * of `req.url`
+     */
+    basePath?: string;
+    /**
+     * Remove a leading `/<stage>` segment from `req.url`, as seen when the API is
+     * called through the default `execute-api` domain
+     */
+    stripStage?: boolean;
+    /** Pushes messages to WebSocket API clients, for `req.webSocket.send()` */
+    webSocketConnections?: WebSocketConnections;
+}
+
+/**
+ * Remove `prefix` from the start of `path` when it matches whole path segments
+ */
+function stripPathPrefix(path: string, prefix: string): string {
+    const normalized = '/' + prefix.replace(/^\/+|\/+$/g, '');
+    if (normalized === '/') {
+        return path;
+    }
+    if (path === normalized) {
+        return '/';
+    }
+    if (path.startsWith(normalized + '/')) {
+        return path.slice(normalized.length);
+    }
+    return path;
+}
+
 export class LambdaIncomingMessage extends EventWrapperSocket implements IncomingMessage {
-    private _event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2;
+    private _event: unknown;
     private _socket: Socket;
     private _url: string | undefined;
+    private _bodyLength: number | undefined;
+    private _aborted: boolean = false;
+    private _context: Context | undefined;
+    private _options: LambdaIncomingMessageOptions;
+    private _traceContext: TraceContext | undefined;
+    private _eventSource: EventSource;
+    private _request: EventSourceRequest;
 
 
-    constructor(event: APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2) {
-        let body = event.body || undefined;
-        super(body, {});
+    constructor(event: unknown, context?: Context, options: LambdaIncomingMessageOptions = {}) {
+        const eventSource = requireEventSource(event);
+        const request = eventSource.toRequest(event);
+        let body = request.body;
+        super(body, {
+            remoteAddress: request.remoteAddress,
+            isHttps: request.isHttps ?? false,
+            localPort: request.localPort,
+        });
         
         this._debug = createDebugger('LambdaIncomingMessage');
         this._debug('constructor');
         
         this._event = event;
+        this._eventSource = eventSource;
+        this._request = request;
+        this._context = context;
+        this._options = options;
+        this._bodyLength = body?.length;
+        // Parsed once so a synthesized `traceparent` keeps the same span ID
+        this._traceContext = traceContextFromHeaders(this._findHeader('x-amzn-trace-id'), this._findHeader('traceparent'));
         this._socket = this;
         this._url = this._parseUrl();
     }
@@ -34,19 +103,29 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
     /**
      * The request/response headers object.
      * Key-value pairs of header names and values. Header names are lower-cased.
+     * Duplicate headers are joined the same way Node's `IncomingMessage` joins them.
      */
     get headers(): IncomingHttpHeaders {
-        const headers: IncomingHttpHeaders = {};
+        const headers: NodeJS.Dict<string | string[]> = {};
         
-        if ('headers' in this._event) {
-            for (const [key, value] of Object.entries(this._event.headers)) {
-                if (value !== undefined) {
-                    headers[key.toLowerCase()] = value as string;
-                }
+        for (const [name, value] of this._rawHeaderEntries()) {
+            const key = name.toLowerCase();
+            const existing = headers[key];
+
+            if (existing === undefined) {
+                headers[key] = key === 'set-cookie' ? [value] : value;
+            } else if (key === 'set-cookie') {
+                (existing as string[]).push(value);
+            } else if (DISCARD_DUPLICATE_HEADERS.has(key)) {
+                continue;
+            } else if (key === 'cookie') {
+                headers[key] = `${existing}; ${value}`;
+            } else {
+                headers[key] = `${existing}, ${value}`;
             }
         }
         
-        return headers;
+        return headers as IncomingHttpHeaders;
     }
 
     /**
@@ -56,12 +135,9 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
     get headersDistinct(): NodeJS.Dict<string[]> {
         const headers: NodeJS.Dict<string[]> = {};
         
-        if ('headers' in this._event) {
-            for (const [key, value] of Object.entries(this._event.headers)) {
-                if (value !== undefined) {
-                    headers[key.toLowerCase()] = [value as string];
-                }
-            }
+        for (const [name, value] of this._rawHeaderEntries()) {
+            const key = name.toLowerCase();
+            (headers[key] ??= []).push(value);
         }
         
         return headers;
@@ -74,17 +150,47 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
      * are the associated values.
      */
     get rawHeaders(): string[] {
-        const rawHeaders: string[] = [];
-        
-        if ('headers' in this._event) {
-            for (const [key, value] of Object.entries(this._event.headers)) {
-                if (value !== undefined) {
-                    rawHeaders.push(key, value as string);
+        return this._rawHeaderEntries().flat();
+    }
+
+    /**
+     * Header name/value pairs in the order they were received, one pair per value,
+     * as normalized by the event source.
+     *
+     * A W3C `traceparent` derived from the X-Ray trace is added when missing.
+     * `Content-Length` always reflects the decoded body.
+     */
+    private _rawHeaderEntries(): [string, string][] {
+        const entries: [string, string][] = [];
+        let hasContentLength = false;
+
+        for (const [name, value] of this._request.headers) {
+            if (name.toLowerCase() === 'content-length' && this._bodyLength !== undefined) {
+                if (!hasContentLength) {
+                    entries.push([name, String(this._bodyLength)]);
+                    hasContentLength = true;
                 }
+                continue;
             }
+            entries.push([name, value]);
+        }
+
+        if (this._traceContext && !entries.some(([name]) => name.toLowerCase() === 'traceparent')) {
+            entries.push(['traceparent', this._traceContext.traceparent]);
+        }
+
+        if (this._bodyLength !== undefined && !hasContentLength) {
+            entries.push(['Content-Length', String(this._bodyLength)]);
         }
         
-        return rawHeaders;
+        return entries;
+    }
+
+    /**
+     * First value of a request header as the event carried it, ignoring case
+     */
+    private _findHeader(name: string): string | undefined {
+        return getRequestHeader(this._request, name);
     }
 
     /**
@@ -115,7 +221,7 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
      * Calls message.connection.setTimeout(msecs, callback).
      */
     override setTimeout(msecs: number, callback?: () => void): this {
-        this._socket.setTimeout(msecs, callback);
+        super.setTimeout(msecs, callback);
         return this;
     }
 
@@ -124,41 +230,41 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
      * The request method as a string. Read only. Examples: GET, DELETE.
      */
     get method(): string | undefined {
-        if ('httpMethod' in this._event) {
-            return this._event.httpMethod;
-        } else if ('requestContext' in this._event && 'http' in this._event.requestContext) {
-            return this._event.requestContext.http.method;
-        }
-        return undefined;
+        return this._request.method;
     }
 
 
+    /**
+     * The request path exactly as the event carried it, before `stripStage` and
+     * `basePath` were applied to `url`
+     */
+    get originalLambdaPath(): string {
+        return this._request.path ?? '';
+    }
+
+    /**
+     * Remove the stage and custom domain base path prefixes from a request path
+     */
+    private _rewritePath(path: string): string {
+        if (this._options.stripStage) {
+            const stage = this.stage;
+            if (stage && stage !== '$default') {
+                path = stripPathPrefix(path, stage);
+            }
+        }
+        if (this._options.basePath) {
+            path = stripPathPrefix(path, this._options.basePath);
+        }
+        return path;
+    }
+
     /**
      * Request URL string. This contains only the URL that is present in the
      * actual HTTP request.
      */
     private _parseUrl(): string | undefined {
-        let path = '';
-        let query = '';
-        
-        if ('path' in this._event) {
-            path = this._event.path;
-        } else if ('rawPath' in this._event) {
-            path = this._event.rawPath;
-        }
-        
-        if ('queryStringParameters' in this._event && this._event.queryStringParameters) {
-            const params = new URLSearchParams();
-            for (const [key, value] of Object.entries(this._event.queryStringParameters)) {
-                if (value !== null && value !== undefined) {
-                    params.append(key, value);
-                }
-            }
-            query = params.toString();
-        } else if ('rawQueryString' in this._event && this._event.rawQueryString) {
-            query = this._event.rawQueryString;
-        }
-        
+        const path = this._rewritePath(this.originalLambdaPath);
+        const query = this._request.query;
         return query ? `${path}?${query}` : path;
     }
 
@@ -183,7 +289,23 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
      * The message.aborted property will be true if the request has been aborted.
      */
     get aborted(): boolean {
-        return false; // Lambda requests are not aborted
+        return this._aborted;
+    }
+
+    /**
+     * Abort the request when the invocation deadline is reached, as if the client
+     * had disconnected: the socket `timeout` fires, then `aborted` and `close`.
+     */
+    abortOnDeadline(): void {
+        if (this._aborted) {
+            return;
+        }
+        this._debug('abortOnDeadline');
+        this._aborted = true;
+        this.setTimeout(0);
+        this.emit('timeout');
+        this.emit('aborted');
+        this.emit('close');
     }
 
     /**
@@ -213,12 +335,7 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
      * message.httpVersionMinor is the second.
      */
     get httpVersion(): string {
-        if ('requestContext' in this._event && 'protocol' in this._event.requestContext) {
-            return this._event.requestContext.protocol.replace('HTTP/', '');
-        } else if ('requestContext' in this._event && 'http' in this._event.requestContext) {
-            return this._event.requestContext.http.protocol.replace('HTTP/', '');
-        }
-        return '1.1'; // Default to HTTP/1.1
+        return this._request.httpVersion || '1.1'; // Default to HTTP/1.1
     }
 
     /**
@@ -245,17 +362,113 @@ export class LambdaIncomingMessage extends EventWrapperSocket implements Incomin
      * as an argument to any listeners on the event.
      */
     override destroy(error?: Error): this {
-        this._socket.destroy(error);
+        super.destroy(error);
         return this;
     }
 
     /**
-     * Get the original Lambda event that was used to create this request
+     * Get the original Lambda event that was used to create this request, in the
+     * format of its event source (see `eventSource`)
      */
-    get lambdaEvent(): APIGatewayEvent | APIGatewayProxyEvent | APIGatewayProxyEventV2 {
+    get lambdaEvent(): unknown {
         return this._event;
     }
 
+    /**
+     * Get the Lambda context of the invocation that received this request
+     */
+    get lambdaContext(): Context | undefined {
+        return this._context;
+    }
+
+    /**
+     * Lambda request ID of the invocation (`context.awsRequestId`)
+     */
+    get awsRequestId(): string | undefined {
+        return this._context?.awsRequestId;
+    }
+
+    /**
+     * Name of the Lambda function handling the request (`context.functionName`)
+     */
+    get functionName(): string | undefined {
+        return this._context?.functionName;
+    }
+
+    /**
+     * Milliseconds left before Lambda ends the invocation, when a context is attached
+     */
+    getRemainingTimeInMillis(): number | undefined {
+        return this._context?.getRemainingTimeInMillis?.();
+    }
+
+    /**
+     * API Gateway request ID (`requestContext.requestId`), as sent in `x-amzn-requestid`
+     */
+    get apiGatewayRequestId(): string | undefined {
+        return this._request.requestId;
+    }
+
+    /**
+     * API Gateway stage that received the request
+     */
+    get stage(): string | undefined {
+        return this._request.stage;
+    }
+
+    /**
+     * Caller identity verified by the API Gateway authorizer, normalized across
+     * Cognito, JWT, Lambda and IAM authorizers
+     */
+    get lambdaAuth(): LambdaAuth | undefined {
+        return getLambdaAuth(this._event);
+    }
+
+    /**
+     * The WebSocket API connection the request belongs to, for events converted
+     * with `toWebSocketRequestEvent`
+     */
+    get webSocket(): WebSocketRequestInfo | undefined {
+        return getWebSocketRequestInfo(this._event, this._options.webSocketConnections);
+    }
+
+    /**
+     * X-Ray trace context of the invocation, with its W3C `traceparent`
+     */
+    get traceContext(): TraceContext | undefined {
+        return this._traceContext;
+    }
+
+    /**
+     * Route that matched the request: `routeKey` for v2 events, and
+     * `<method> <resource>` for v1 events
+     */
+    get routeKey(): string | undefined {
+        return this._request.routeKey;
+    }
+
+    /**
+     * The event source that built this request and serializes its response
+     */
+    get eventSource(): EventSource {
+        return this._eventSource;
+    }
+
+    /**
+     * Whether the invoker cut the request body short, as CloudFront does at the
+     * Lambda@Edge body size limit. The body then ends early.
+     */
+    get bodyTruncated(): boolean {
+        return this._request.bodyTruncated ?? false;
+    }
+
+    /**
+     * The request as the event source built it from the event, with the decoded body
+     */
+    get sourceRequest(): EventSourceRequest {
+        return this._request;
+    }
+
     get url(): string | undefined {
         this._debug('get url=', this._url);
         return this._url;
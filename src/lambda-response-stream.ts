@@ -0,0 +1,111 @@
+import { type Writable } from 'stream';
+import { type APIGatewayProxyStructuredResultV2 } from './types';
+import { createDebugger } from './util';
+
+const debug = createDebugger('LambdaResponseStream');
+
+/**
+ * Content type Lambda uses to recognize a response stream that starts with an
+ * HTTP integration prelude (status code, headers and cookies)
+ */
+export const HTTP_INTEGRATION_CONTENT_TYPE = 'application/vnd.awslambda.http-integration-response';
+
+/**
+ * The response stream Lambda passes to handlers wrapped in `awslambda.streamifyResponse`.
+ * Any `Writable` can stand in for it locally.
+ */
+export type LambdaResponseStream = Writable & {
+    setContentType?(contentType: string): void;
+};
+
+/**
+ * Metadata written ahead of the body bytes on a Function URL response stream
+ */
+export interface ResponseStreamPrelude {
+    statusCode?: number;
+    headers?: { [key: string]: string | number | boolean };
+    cookies?: string[];
+}
+
+/**
+ * A streaming Lambda handler, as accepted by `awslambda.streamifyResponse`
+ */
+export type StreamingHandler<TEvent = any> = (
+    event: TEvent,
+    responseStream: LambdaResponseStream,
+    context: any
+) => Promise<void>;
+
+declare const awslambda: {
+    streamifyResponse<TEvent>(handler: StreamingHandler<TEvent>): StreamingHandler<TEvent>;
+} | undefined;
+
+// Streams that already carry a prelude; the status line can no longer change
+const startedStreams = new WeakSet<Writable>();
+
+/**
+ * Write the HTTP integration prelude: the JSON metadata followed by 8 null bytes.
+ *
+ * This is what `awslambda.HttpResponseStream.from()` does, without depending on
+ * the Lambda runtime global.
+ */
+export function writeStreamPrelude(stream: LambdaResponseStream, prelude: ResponseStreamPrelude): void {
+    if (startedStreams.has(stream)) {
+        debug('writeStreamPrelude: prelude already written');
+        return;
+    }
+    startedStreams.add(stream);
+
+    stream.setContentType?.(HTTP_INTEGRATION_CONTENT_TYPE);
+    stream.write(JSON.stringify(prelude));
+    stream.write(new Uint8Array(8));
+}
+
+/**
+ * Determine if a prelude has already been written to the stream
+ */
+export function isStreamStarted(stream: Writable): boolean {
+    return startedStreams.has(stream);
+}
+
+/**
+ * Write a complete buffered result to a response stream and end it.
+ *
+ * If the stream has already started, the status and headers can no longer be
+ * sent, so the stream is only ended.
+ */
+export function writeStreamingResult(stream: LambdaResponseStream, result: APIGatewayProxyStructuredResultV2): void {
+    if (stream.writableEnded) {
+        return;
+    }
+    if (isStreamStarted(stream)) {
+        debug('writeStreamingResult: stream already started; ending it');
+        stream.end();
+        return;
+    }
+
+    const prelude: ResponseStreamPrelude = { statusCode: result.statusCode ?? 200 };
+    if (result.headers) {
+        prelude.headers = result.headers;
+    }
+    if (result.cookies) {
+        prelude.cookies = result.cookies;
+    }
+    writeStreamPrelude(stream, prelude);
+
+    if (result.body) {
+        stream.write(Buffer.from(result.body, result.isBase64Encoded ? 'base64' : 'utf8'));
+    }
+    stream.end();
+}
+
+/**
+ * Wrap a streaming handler with `awslambda.streamifyResponse` when running inside
+ * the Lambda runtime. Elsewhere (tests, local servers) the handler is returned as-is.
+ */
+export function streamifyResponse<TEvent>(handler: StreamingHandler<TEvent>): StreamingHandler<TEvent> {
+    if (typeof awslambda !== 'undefined' && awslambda?.streamifyResponse) {
+        return awslambda.streamifyResponse(handler);
+    }
+    return handler;
+}
@@ -1,29 +1,91 @@
-import { ServerResponse } from 'http';
+import { ServerResponse, STATUS_CODES } from 'http';
+import { isUtf8 } from 'buffer';
 import { Socket } from 'net';
-import { type APIGatewayProxyResult, type APIGatewayProxyResultV2, detectApiGatewayVersion } from './types';
+import { type APIGatewayProxyResult, type APIGatewayProxyResultV2, type ALBResult } from './types';
+import { type EventSource, requireEventSource } from './event-source';
 import { LambdaIncomingMessage } from './lambda-incoming-message';
 import { EventResponseBodyWriter } from './lambda-writable';
+import { type LambdaResponseStream, isStreamStarted, writeStreamPrelude } from './lambda-response-stream';
 
-import { createDebugger } from './util';
+import { type CompressionOptions, compressResponse } from './compression';
+import { correlationIdFromRequest } from './tracing';
+
+import { HOP_BY_HOP_HEADERS, createDebugger, isTextMediaType, matchesMediaType } from './util';
 const debug = createDebugger('LambdaResponse');
 
+/**
+ * Options controlling how a `LambdaResponse` is serialized into a Lambda result
+ */
+export interface LambdaResponseOptions {
+    /**
+     * Media types returned base64-encoded, mirroring API Gateway's `binaryMediaTypes`
+     * setting. Wildcards such as `image/*` and `*\/*` are supported.
+     */
+    binaryMediaTypes?: string[];
+    /**
+     * Lambda response stream (Function URL `RESPONSE_STREAM` invoke mode). When set,
+     * the status and headers are written as an HTTP integration prelude and each
+     * body chunk goes straight to the stream instead of being buffered.
+     */
+    responseStream?: LambdaResponseStream;
+    /**
+     * Compress buffered bodies with the best encoding the request's
+     * `Accept-Encoding` allows. Off by default.
+     */
+    compression?: boolean | CompressionOptions;
+    /**
+     * How to handle results larger than Lambda's synchronous payload limit.
+     * By default they are replaced with a 502 JSON error.
+     */
+    payloadLimit?: PayloadLimitOptions;
+    /**
+     * Response header echoing the request's correlation ID (e.g. `x-correlation-id`):
+     * the same request header when sent, else the X-Ray trace ID, else the API
+     * Gateway request ID
+     */
+    correlationIdHeader?: string;
+}
+
 /**
  * Response for Lambda/Express shimming
  * 
  * There is little translation needed for output.
  * 
+ * The status line and header block are never serialized and chunked transfer
+ * encoding is disabled, so the socket only ever receives payload bytes.
+ * Status and headers are read back from `statusCode` and `getHeaders()`.
+ * 
  */
 export class LambdaResponse extends ServerResponse<LambdaIncomingMessage> {
 
     private _debug = debug;
+    private _options: LambdaResponseOptions;
+    private _discarded: boolean = false;
+    private _streamedBytes: number = 0;
+    private _resultParts: ResponseParts | undefined;
     
     
-    constructor(request: LambdaIncomingMessage) {
+    constructor(request: LambdaIncomingMessage, options: LambdaResponseOptions = {}) {
         super(request);
+        this._options = options;
         this._debug('constructor');
+
+        // Node frames every `write()` as a chunk when this is set; keep it off so
+        // the captured body is the payload alone
+        Object.defineProperty(this, 'chunkedEncoding', {
+            get: () => false,
+            set: () => {},
+        });
         
         let writable = new EventResponseBodyWriter() as unknown as Socket;
         this.assignSocket(writable);
+
+        if (options.correlationIdHeader) {
+            let correlationId = correlationIdFromRequest(request.sourceRequest, options.correlationIdHeader);
+            if (correlationId) {
+                this.setHeader(options.correlationIdHeader, correlationId);
+            }
+        }
     }
 
     override _write(chunk: Buffer | string, encoding: string, callback: (error?: Error | null) => void) {
@@ -32,6 +94,91 @@ export class LambdaResponse extends ServerResponse<LambdaIncomingMessage> {
         super._write(chunk, encoding, callback);
     }
 
+    /**
+     * Send payload bytes to the socket without the serialized header block
+     * that `OutgoingMessage` would otherwise prepend to the first chunk.
+     */
+    _send(data: Buffer | string, encoding: BufferEncoding | null, callback?: (error?: Error | null) => void, byteLength?: number): boolean {
+        // @ts-ignore
+        this._headerSent = true;
+
+        if (this._discarded) {
+            this._debug('send: discarded', data.length);
+            if (callback) {
+                process.nextTick(callback);
+            }
+            return true;
+        }
+
+        let stream = this._options.responseStream;
+        if (stream) {
+            return this._sendToStream(stream, data, encoding, callback);
+        }
+        // @ts-ignore
+        return this._writeRaw(data, encoding, callback, byteLength);
+    }
+
+    /**
+     * Interim (1xx) responses have no place in a Lambda result, and Node writes
+     * their status lines straight to the socket; send nothing
+     */
+    override writeContinue(callback?: () => void): void {
+        this._debug('writeContinue: ignored');
+        if (callback) {
+            process.nextTick(callback);
+        }
+    }
+
+    override writeProcessing(callback?: () => void): void {
+        this._debug('writeProcessing: ignored');
+        if (callback) {
+            process.nextTick(callback);
+        }
+    }
+
+    override writeEarlyHints(hints: Record<string, string | string[]>, callback?: () => void): void {
+        this._debug('writeEarlyHints: ignored', hints);
+        if (callback) {
+            process.nextTick(callback);
+        }
+    }
+
+    /**
+     * Discard everything written from now on, e.g. after the invocation deadline
+     * has already produced a result
+     */
+    discard(): void {
+        this._discarded = true;
+    }
+
+    /**
+     * Streaming mode: write the prelude ahead of the first chunk, then pass each
+     * chunk through to the Lambda response stream
+     */
+    private _sendToStream(stream: LambdaResponseStream, data: Buffer | string, encoding: BufferEncoding | null, callback?: (error?: Error | null) => void): boolean {
+        if (!isStreamStarted(stream)) {
+            let { headers, cookies } = makeV2Headers(this._makeHeaders());
+            writeStreamPrelude(stream, {
+                statusCode: this._lambdaStatusCode() || 200,
+                headers,
+                cookies: cookies.length > 0 ? cookies : undefined,
+            });
+        }
+
+        if (data.length === 0) {
+            if (callback) {
+                process.nextTick(callback);
+            }
+            return true;
+        }
+        this._debug('stream write', data.length);
+        this._streamedBytes += typeof data === 'string' ? Buffer.byteLength(data, encoding || 'utf8') : data.length;
+        if (typeof data === 'string') {
+            return stream.write(data, encoding || 'utf8', callback);
+        }
+        return stream.write(data, callback);
+    }
+
     override end(chunk?: any, encoding?: any, cb?: (error?: Error | null) => void): this {
         this._debug('end', chunk || '', 'encoding=', encoding);
 
@@ -39,14 +186,25 @@ export class LambdaResponse extends ServerResponse<LambdaIncomingMessage> {
             super.end(chunk, encoding, cb);
             this._debug('end: complete');
             this.socket!.end();
+            if (this._options.responseStream && !this._options.responseStream.writableEnded && !this._discarded) {
+                this._options.responseStream.end();
+            }
         } catch (e) {
             this._debug('end: error: ', e);
         }
         return this;
     }
     
-    private _makeHeaders(): { [key: string]: string | boolean | number } {
+    /**
+     * Split the response headers into single-value `headers` and, for headers
+     * set more than once (e.g. `Set-Cookie`), distinct `multiValueHeaders`
+     */
+    private _makeHeaders(): {
+        headers: { [key: string]: string | boolean | number },
+        multiValueHeaders: { [key: string]: (string | boolean | number)[] },
+    } {
         let headers: { [key: string]: string | boolean | number } = {};
+        let multiValueHeaders: { [key: string]: (string | boolean | number)[] } = {};
         let h = this.getHeaders();
         for (let key in h) {
             if (key === undefined || key === null) {
@@ -54,37 +212,37 @@ export class LambdaResponse extends ServerResponse<LambdaIncomingMessage> {
             }
 
             let value = h[key];
-            if (key === 'set-cookie' && value !== undefined) {
-                if (Array.isArray(value)) {
-                    value = value.join('; ');
-                } 
-            }
-            if (value === undefined) {
+            if (value === undefined || HOP_BY_HOP_HEADERS.has(key)) {
                 continue;
             }
-            if (typeof value === 'string') {
-                headers[key] = value;
-            } else if (Array.isArray(value)) {
-                headers[key] = value.join(',');
+            if (Array.isArray(value)) {
+                multiValueHeaders[key] = value;
             } else {
                 headers[key] = value;
             }
         }
-        return headers;
+        return { headers, multiValueHeaders };
     }
 
-    private _makeBodyResponse(): { body: string, isBase64Encoded: boolean } {
-        let body = (this.socket! as unknown as EventResponseBodyWriter).body;
-        let bodyString: string;
-        let isBase64Encoded = false;
-        // Check if body has unprintable characters
-        if (body.some(c => c < 32 || c > 126)) {
-            bodyString = body.toString('base64');
-            isBase64Encoded = true;
-        } else {
-            bodyString = body.toString();
+    /**
+     * Status, headers and captured body, ready to be serialized into a Lambda result
+     */
+    private _parts(): ResponseParts {
+        let { headers, multiValueHeaders } = this._makeHeaders();
+        let parts: ResponseParts = {
+            statusCode: this._lambdaStatusCode(),
+            statusMessage: this.statusMessage,
+            headers,
+            multiValueHeaders,
+            body: (this.socket! as unknown as EventResponseBodyWriter).body,
+        };
+
+        let compression = this._options.compression;
+        if (compression) {
+            let acceptEncoding = this.req.headers['accept-encoding'];
+            parts = compressResponse(parts, acceptEncoding, compression === true ? {} : compression);
         }
-        return { body: bodyString, isBase64Encoded: isBase64Encoded };
+        return parts;
     }
 
     private _lambdaStatusCode(): number | undefined {
@@ -98,53 +256,426 @@ export class LambdaResponse extends ServerResponse<LambdaIncomingMessage> {
         } 
     }
 
-    lambdaResponse(): APIGatewayProxyResult {
-        let headers = this._makeHeaders();
-        let { body, isBase64Encoded } = this._makeBodyResponse();
-        let statusCode = this._lambdaStatusCode() || 200;
+    /**
+     * Body bytes written to `responseStream` so far
+     */
+    get streamedBytes(): number {
+        return this._streamedBytes;
+    }
 
-        let response: APIGatewayProxyResult = {
-            statusCode,
-            body,
-            headers,
-            isBase64Encoded,
-        };
-        return response;
+    lambdaResponse(): APIGatewayProxyResult {
+        return toV1Result(this._parts(), this._options);
     }
 
     lambdaResponseV2(): APIGatewayProxyResultV2 {
-        let headers = this._makeHeaders();
-        let { body, isBase64Encoded } = this._makeBodyResponse();
-        let statusCode = this._lambdaStatusCode();
+        return toV2Result(this._parts(), this._options);
+    }
 
-        let cookies: string[] = [];
-        if (headers['set-cookie'] !== undefined) {
-            cookies = (headers['set-cookie'] as string).split('; ');
-            delete headers['set-cookie'];
-        }
+    /**
+     * Build an Application Load Balancer result; see `toALBResult`
+     */
+    albResponse(): ALBResult {
+        return toALBResult(this._parts(), this.req.lambdaEvent, this._options);
+    }
 
-        let response: APIGatewayProxyResultV2 = {
-            statusCode,
-            body,
-            headers,
-            isBase64Encoded,
-        };
-        if (cookies.length > 0) {
-            response.cookies = cookies;
-        }
-        return response;
+    /**
+     * Build the result of the request's event source, e.g. an `APIGatewayProxyResultV2`
+     * for an HTTP API event
+     */
+    toLambdaResponse(): unknown {
+        return this.req.eventSource.toResult(this._parts(), this.req.lambdaEvent, this._options);
     }
 
-    toLambdaResponse(): APIGatewayProxyResult | APIGatewayProxyResultV2 {
-        let version = detectApiGatewayVersion(this.req.lambdaEvent);
-        if (version === 'v1') {
-            return this.lambdaResponse();
-        } else {
-            return this.lambdaResponseV2();
-        }
+    /**
+     * Build the Lambda result and apply the `payloadLimit` strategy when it is
+     * too large to be returned
+     */
+    async finalizeLambdaResponse(): Promise<unknown> {
+        const { result, parts } = await serializeResult(this._parts(), this.req.lambdaEvent, this._options, this.req.eventSource);
+        this._resultParts = parts;
+        return result;
+    }
+
+    /**
+     * Parts of the result `finalizeLambdaResponse` returned; undefined until it
+     * has, or when the `payloadLimit` strategy rewrote the result
+     */
+    get resultParts(): ResponseParts | undefined {
+        return this._resultParts;
     }
     
     set url(url: string | undefined) {
         this._debug('set url', url);
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Everything needed to serialize a response into a Lambda result
+ */
+export interface ResponseParts {
+    statusCode: number | undefined;
+    statusMessage?: string;
+    /** Headers set once, with lower-cased names */
+    headers: { [key: string]: string | boolean | number };
+    /** Headers set more than once (e.g. `Set-Cookie`), with lower-cased names */
+    multiValueHeaders: { [key: string]: (string | boolean | number)[] };
+    body: Buffer;
+}
+
+/**
+ * Decide whether the body must be base64-encoded for API Gateway.
+ *
+ * Content-encoded bodies and configured `binaryMediaTypes` are always binary;
+ * text media types never are. Anything else is binary only if it is not valid UTF-8.
+ */
+export function isBinaryBody(parts: ResponseParts, binaryMediaTypes: string[] = []): boolean {
+    let contentEncoding = parts.headers['content-encoding'];
+    if (contentEncoding !== undefined && String(contentEncoding).toLowerCase() !== 'identity') {
+        return true;
+    }
+
+    let contentType = parts.headers['content-type'];
+    let mediaType = contentType === undefined ? undefined : String(contentType);
+    if (mediaType !== undefined && matchesMediaType(mediaType, binaryMediaTypes)) {
+        return true;
+    }
+    if (mediaType !== undefined && isTextMediaType(mediaType)) {
+        return false;
+    }
+    return !isUtf8(parts.body);
+}
+
+function makeBodyResponse(parts: ResponseParts, options: LambdaResponseOptions): { body: string, isBase64Encoded: boolean } {
+    if (isBinaryBody(parts, options.binaryMediaTypes)) {
+        return { body: parts.body.toString('base64'), isBase64Encoded: true };
+    }
+    return { body: parts.body.toString('utf8'), isBase64Encoded: false };
+}
+
+/**
+ * v2 has no multi-value headers: cookies move to `cookies`, the rest are joined
+ */
+function makeV2Headers(parts: Pick<ResponseParts, 'headers' | 'multiValueHeaders'>): { headers: { [key: string]: string | boolean | number }, cookies: string[] } {
+    let headers = { ...parts.headers };
+    let multiValueHeaders = { ...parts.multiValueHeaders };
+
+    let cookies: string[] = [];
+    if (multiValueHeaders['set-cookie'] !== undefined) {
+        cookies = multiValueHeaders['set-cookie'].map(String);
+        delete multiValueHeaders['set-cookie'];
+    } else if (headers['set-cookie'] !== undefined) {
+        cookies = [String(headers['set-cookie'])];
+        delete headers['set-cookie'];
+    }
+    for (let key in multiValueHeaders) {
+        headers[key] = multiValueHeaders[key].join(',');
+    }
+    return { headers, cookies };
+}
+
+/**
+ * Build an API Gateway REST API (v1) result
+ */
+export function toV1Result(parts: ResponseParts, options: LambdaResponseOptions = {}): APIGatewayProxyResult {
+    let { body, isBase64Encoded } = makeBodyResponse(parts, options);
+
+    let response: APIGatewayProxyResult = {
+        statusCode: parts.statusCode || 200,
+        body,
+        headers: { ...parts.headers },
+        isBase64Encoded,
+    };
+    if (Object.keys(parts.multiValueHeaders).length > 0) {
+        response.multiValueHeaders = { ...parts.multiValueHeaders };
+    }
+    return response;
+}
+
+/**
+ * Build an API Gateway HTTP API (v2) or Function URL result
+ */
+export function toV2Result(parts: ResponseParts, options: LambdaResponseOptions = {}): APIGatewayProxyResultV2 {
+    let { headers, cookies } = makeV2Headers(parts);
+    let { body, isBase64Encoded } = makeBodyResponse(parts, options);
+
+    let response: APIGatewayProxyResultV2 = {
+        statusCode: parts.statusCode,
+        body,
+        headers,
+        isBase64Encoded,
+    };
+    if (cookies.length > 0) {
+        response.cookies = cookies;
+    }
+    return response;
+}
+
+/**
+ * Build an Application Load Balancer result.
+ *
+ * When the target group has multi-value headers enabled (the event carried
+ * `multiValueHeaders`), every header is returned in `multiValueHeaders`.
+ * Otherwise only `headers` is allowed: repeated headers are joined, except
+ * `Set-Cookie`, which keeps the last value.
+ */
+export function toALBResult(parts: ResponseParts, event: unknown, options: LambdaResponseOptions = {}): ALBResult {
+    let headers = { ...parts.headers };
+    let multiValueHeaders = { ...parts.multiValueHeaders };
+    let { body, isBase64Encoded } = makeBodyResponse(parts, options);
+    let statusCode = parts.statusCode || 200;
+    let statusDescription = `${statusCode} ${parts.statusMessage || STATUS_CODES[statusCode] || ''}`.trim();
+
+    let response: ALBResult = {
+        statusCode,
+        statusDescription,
+        body,
+        isBase64Encoded,
+    };
+
+    if (typeof event === 'object' && event !== null && 'multiValueHeaders' in event && event.multiValueHeaders) {
+        for (let key in headers) {
+            multiValueHeaders[key] = [headers[key]];
+        }
+        response.multiValueHeaders = multiValueHeaders;
+    } else {
+        for (let key in multiValueHeaders) {
+            let values = multiValueHeaders[key];
+            if (key === 'set-cookie') {
+                debug('albResponse: multi-value headers disabled; dropping all but the last set-cookie');
+                headers[key] = values[values.length - 1];
+            } else {
+                headers[key] = values.join(',');
+            }
+        }
+        response.headers = headers;
+    }
+    return response;
+}
+
+/**
+ * Response parts of a JSON error result such as `{"message":"Bad Gateway"}`,
+ * for when the request listener could not produce a response
+ */
+export function errorParts(statusCode: number): ResponseParts {
+    const statusMessage = STATUS_CODES[statusCode] || 'Error';
+    return {
+        statusCode,
+        statusMessage,
+        headers: { 'content-type': 'application/json' },
+        multiValueHeaders: {},
+        body: Buffer.from(JSON.stringify({ message: statusMessage })),
+    };
+}
+
+/**
+ * Largest result a synchronous invocation may return, as reported by Lambda's
+ * "exceeded maximum allowed payload size (6291556 bytes)" error
+ */
+export const MAX_PAYLOAD_SIZE = 6291556;
+
+/**
+ * Header added to truncated results, holding the original body size in bytes
+ */
+export const TRUNCATED_HEADER = 'x-response-truncated';
+
+/**
+ * A result that is too large to return, passed to a `PayloadOverflowHandler`
+ */
+export interface PayloadOverflow {
+    event: unknown;
+    /** The result built by the event source, e.g. an `APIGatewayProxyResult` */
+    result: unknown;
+    /** The decoded response body */
+    body: Buffer;
+    /** Serialized result size in bytes */
+    size: number;
+    /** The limit it exceeds */
+    limit: number;
+}
+
+/**
+ * Replace an oversized result, e.g. by uploading the body to storage and
+ * returning a redirect to it
+ */
+export type PayloadOverflowHandler = (overflow: PayloadOverflow) => unknown;
+
+/**
+ * Options for results larger than Lambda's synchronous payload limit
+ */
+export interface PayloadLimitOptions {
+    /**
+     * Largest serialized result in bytes. Defaults to the event source's limit
+     * (e.g. 1 MB for CloudFront origin requests), else `MAX_PAYLOAD_SIZE`.
+     */
+    limit?: number;
+    /**
+     * `'error'` (default) returns a JSON error, `'truncate'` cuts the body to fit and
+     * adds an `X-Response-Truncated` header, and a function replaces the result.
+     */
+    strategy?: 'error' | 'truncate' | PayloadOverflowHandler;
+    /** Status code of the `'error'` strategy's result. Defaults to 502. */
+    statusCode?: 413 | 502;
+}
+
+/**
+ * Size of a result as Lambda serializes it
+ */
+function payloadSize(result: unknown): number {
+    return Buffer.byteLength(JSON.stringify(result) ?? '');
+}
+
+/**
+ * Whether a result carries its body in `body`, as v1, ALB and structured v2 results do
+ */
+function isStructuredResult(result: unknown): result is APIGatewayProxyResult | ALBResult {
+    return typeof result === 'object' && result !== null && 'statusCode' in result;
+}
+
+/**
+ * Set a header on a result, in whichever header map the result uses
+ */
+function setResultHeader(result: APIGatewayProxyResult | ALBResult, name: string, value: string | undefined): void {
+    const matches = (key: string) => key.toLowerCase() === name;
+    if (result.multiValueHeaders) {
+        for (const key of Object.keys(result.multiValueHeaders).filter(matches)) {
+            delete result.multiValueHeaders[key];
+        }
+    }
+    if (result.headers) {
+        for (const key of Object.keys(result.headers).filter(matches)) {
+            delete result.headers[key];
+        }
+    }
+    if (value === undefined) {
+        return;
+    }
+    // ALB targets with multi-value headers enabled only accept `multiValueHeaders`
+    if (result.multiValueHeaders && !result.headers) {
+        result.multiValueHeaders[name] = [value];
+    } else {
+        result.headers = { ...result.headers, [name]: value };
+    }
+}
+
+/**
+ * Cut the body of a result until the serialized result fits in `limit` bytes.
+ *
+ * @returns The truncated result, or `undefined` when the body is content-encoded
+ * (a truncated compressed stream cannot be decoded) or cannot be made to fit.
+ */
+function truncateResult(
+    result: unknown,
+    size: number,
+    limit: number
+): APIGatewayProxyResult | ALBResult | undefined {
+    if (!isStructuredResult(result) || !result.body) {
+        return undefined;
+    }
+    const headerNames = [
+        ...Object.keys(result.headers || {}),
+        ...Object.keys(result.multiValueHeaders || {}),
+    ];
+    if (headerNames.some((name) => name.toLowerCase() === 'content-encoding')) {
+        return undefined;
+    }
+
+    const encoding = result.isBase64Encoded ? 'base64' : 'utf8';
+    const body = Buffer.from(result.body, encoding);
+    // Room for the warning header, then trim further by whatever is still over
+    let keep = body.length - Math.ceil((size - limit) * (result.isBase64Encoded ? 0.75 : 1)) - 64;
+
+    while (keep > 0) {
+        const truncated: APIGatewayProxyResult | ALBResult = { ...result, body: body.subarray(0, keep).toString(encoding) };
+        if (truncated.headers) {
+            truncated.headers = { ...truncated.headers };
+        }
+        if (truncated.multiValueHeaders) {
+            truncated.multiValueHeaders = { ...truncated.multiValueHeaders };
+        }
+        setResultHeader(truncated, 'content-length', undefined);
+        setResultHeader(truncated, TRUNCATED_HEADER, String(body.length));
+
+        const truncatedSize = payloadSize(truncated);
+        if (truncatedSize <= limit) {
+            return truncated;
+        }
+        keep -= truncatedSize - limit;
+    }
+    return undefined;
+}
+
+/**
+ * Measure the serialized result and, when it exceeds the payload limit, apply
+ * the configured strategy instead of letting the invocation fail. The default
+ * limit and the error result come from `source`, the event source of `event`.
+ */
+export async function enforcePayloadLimit(
+    result: unknown,
+    event: unknown,
+    options: PayloadLimitOptions = {},
+    source: EventSource = requireEventSource(event)
+): Promise<unknown> {
+    return (await limitPayload({ result, parts: undefined }, event, options, source)).result;
+}
+
+/**
+ * A Lambda result and the response parts it was serialized from
+ */
+export interface SerializedResult {
+    result: unknown;
+    /** Undefined when the `payloadLimit` strategy truncated or replaced the result */
+    parts: ResponseParts | undefined;
+}
+
+/**
+ * Serialize response parts into the result of `source`, the event source of
+ * `event`, and apply the `payloadLimit` strategy when it is too large to be returned
+ */
+export async function serializeResult(
+    parts: ResponseParts,
+    event: unknown,
+    options: LambdaResponseOptions = {},
+    source: EventSource = requireEventSource(event)
+): Promise<SerializedResult> {
+    return limitPayload({ result: source.toResult(parts, event, options), parts }, event, options.payloadLimit, source);
+}
+
+/**
+ * `enforcePayloadLimit`, keeping track of the parts behind the result
+ */
+async function limitPayload(
+    serialized: SerializedResult,
+    event: unknown,
+    options: PayloadLimitOptions = {},
+    source: EventSource
+): Promise<SerializedResult> {
+    const { result } = serialized;
+    const limit = options.limit ?? source.maxPayloadSize?.(event) ?? MAX_PAYLOAD_SIZE;
+    const size = payloadSize(result);
+    if (size <= limit) {
+        return serialized;
+    }
+
+    const strategy = options.strategy ?? 'error';
+    debug('enforcePayloadLimit: result is %d bytes, over the %d byte limit; strategy: %s',
+        size, limit, typeof strategy === 'function' ? 'callback' : strategy);
+
+    if (typeof strategy === 'function') {
+        const body = isStructuredResult(result) && result.body
+            ? Buffer.from(result.body, result.isBase64Encoded ? 'base64' : 'utf8')
+            : Buffer.from(JSON.stringify(result) ?? '');
+        return { result: await strategy({ event, result, body, size, limit }), parts: undefined };
+    }
+
+    if (strategy === 'truncate') {
+        const truncated = truncateResult(result, size, limit);
+        if (truncated) {
+            debug('enforcePayloadLimit: truncated result to %d bytes', payloadSize(truncated));
+            return { result: truncated, parts: undefined };
+        }
+        debug('enforcePayloadLimit: body cannot be truncated; returning an error');
+    }
+
+    const parts = errorParts(options.statusCode ?? 502);
+    return { result: source.toResult(parts, event, {}), parts };
+}
@@ -0,0 +1,120 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+
+import { buildContext, buildEvent, decodeResult } from './event-builders';
+import {
+    type ALBResult,
+    type APIGatewayProxyResult,
+    type APIGatewayProxyResultV2,
+    type Context,
+} from './types';
+import { createDebugger } from './util';
+
+const debug = createDebugger('LocalServer');
+
+/**
+ * Any Lambda handler the local server can invoke
+ */
+export type LocalServerHandler = (
+    event: any,
+    context: Context
+) => Promise<APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult>;
+
+/**
+ * Options for `createLocalServer`
+ */
+export interface LocalServerOptions {
+    /** Port to listen on. Defaults to 3000; use 0 for a random free port. */
+    port?: number;
+    /** Host to bind to. Defaults to all interfaces. */
+    host?: string;
+    /** Event format to synthesize. Defaults to `'v2'`. */
+    version?: 'v1' | 'v2' | 'alb';
+    /** API Gateway stage name. Defaults to `'local'` for v1 and `'$default'` for v2. */
+    stage?: string;
+    /** For ALB events: synthesize multi-value headers and query parameters */
+    multiValueHeaders?: boolean;
+    /** Function name reported by the fake `Context`. Defaults to `'local'`. */
+    functionName?: string;
+    /** Invocation time limit reported by `context.getRemainingTimeInMillis()`. Defaults to 30000. */
+    timeout?: number;
+    /**
+     * Called when the server fails, e.g. with `EADDRINUSE` when the port is taken.
+     * Defaults to logging the error to stderr.
+     */
+    onError?: (error: Error) => void;
+}
+
+/**
+ * Start an HTTP server that turns each request into a Lambda event, invokes
+ * `handler` with a fake `Context`, and writes the result back to the client.
+ *
+ * This runs the exact handler that is deployed, rather than a parallel `app.listen()`.
+ */
+export function createLocalServer(handler: LocalServerHandler, options: LocalServerOptions = {}): Server {
+    const server = createServer((req, res) => {
+        handleLocalRequest(handler, options, req, res).catch((error) => {
+            debug('local request failed', error);
+            if (!res.headersSent) {
+                res.writeHead(502, { 'content-type': 'application/json' });
+            }
+            res.end(JSON.stringify({ message: 'Internal server error' }));
+        });
+    });
+
+    // Without a listener, a failed `listen()` would be an uncaught exception
+    server.on('error', options.onError || ((error) => {
+        console.error(`Local server error: ${error.message}`);
+    }));
+    server.listen(options.port ?? 3000, options.host);
+    return server;
+}
+
+async function handleLocalRequest(
+    handler: LocalServerHandler,
+    options: LocalServerOptions,
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+
+    const rawHeaders: [string, string][] = [];
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+        rawHeaders.push([req.rawHeaders[i], req.rawHeaders[i + 1]]);
+    }
+
+    const version = options.version || 'v2';
+    const event = buildEvent(version, {
+        method: req.method,
+        url: req.url,
+        headers: rawHeaders,
+        body: Buffer.concat(chunks),
+        sourceIp: req.socket.remoteAddress,
+        stage: options.stage || (version === 'v1' ? 'local' : undefined),
+    }, options);
+
+    debug('invoke', version, req.method, req.url);
+    const result = await handler(event, buildContext(options.functionName, options.timeout));
+    writeLocalResult(res, result);
+}
+
+/**
+ * Write a structured Lambda result to the client the way API Gateway or ALB would
+ */
+function writeLocalResult(res: ServerResponse, result: APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult): void {
+    const decoded = decodeResult(result);
+
+    res.statusCode = decoded.status;
+    if (decoded.statusText) {
+        res.statusMessage = decoded.statusText;
+    }
+    for (const [name, value] of Object.entries(decoded.headers)) {
+        res.setHeader(name, value);
+    }
+    if (decoded.cookies.length > 0) {
+        res.setHeader('set-cookie', decoded.cookies);
+    }
+    res.end(decoded.rawBody);
+}
@@ -0,0 +1,163 @@
+/**
+ * Trace context propagation: the X-Ray `X-Amzn-Trace-Id` header (or the
+ * `_X_AMZN_TRACE_ID` environment variable Lambda sets) parsed into a typed
+ * context, with the equivalent W3C `traceparent`
+ */
+
+import { randomBytes } from 'crypto';
+import { type Context } from './types';
+import { type EventSourceRequest, findEventSource, getRequestHeader, requireEventSource } from './event-source';
+
+/**
+ * Trace context of an invocation
+ */
+export interface TraceContext {
+    /** X-Ray trace ID, e.g. `1-5759e988-bd862e3fe1be46a994272793` */
+    traceId: string;
+    /** X-Ray parent segment ID, 16 hex digits */
+    parentId: string | undefined;
+    /** X-Ray sampling decision; `undefined` when not yet decided */
+    sampled: boolean | undefined;
+    /** W3C `traceparent` from the request, or synthesized from the X-Ray context */
+    traceparent: string;
+    /** The raw `X-Amzn-Trace-Id` value */
+    xrayHeader: string;
+}
+
+/**
+ * Everything a `TracingHook` knows about the invocation it wraps
+ */
+export interface TracedInvocation {
+    /** The invocation event, in the format of its event source */
+    event: unknown;
+    context: Context;
+    traceContext: TraceContext | undefined;
+    /** Suggested span name, e.g. `GET /users/{id}` */
+    spanName: string;
+}
+
+/**
+ * Wraps each invocation, e.g. to run it inside an OpenTelemetry span:
+ *
+ * ```typescript
+ * tracing: (invocation, run) => tracer.startActiveSpan(invocation.spanName, (span) => run().finally(() => span.end()))
+ * ```
+ */
+export type TracingHook = (
+    invocation: TracedInvocation,
+    run: () => Promise<unknown>
+) => Promise<unknown>;
+
+const XRAY_TRACE_ID = /^1-([0-9a-f]{8})-([0-9a-f]{24})$/i;
+const TRACEPARENT = /^[0-9a-f]{2}-[0-9a-f]{32}-[0-9a-f]{16}-[0-9a-f]{2}$/i;
+
+/**
+ * Parse an `X-Amzn-Trace-Id` value: `Root=1-...;Parent=...;Sampled=1`
+ *
+ * @returns The trace fields, or `undefined` when there is no valid `Root`.
+ */
+export function parseXRayTraceHeader(header: string | undefined): { traceId: string, parentId: string | undefined, sampled: boolean | undefined } | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const fields = new Map<string, string>();
+    for (const part of header.split(';')) {
+        const index = part.indexOf('=');
+        if (index > 0) {
+            fields.set(part.slice(0, index).trim().toLowerCase(), part.slice(index + 1).trim());
+        }
+    }
+
+    const traceId = fields.get('root');
+    if (!traceId || !XRAY_TRACE_ID.test(traceId)) {
+        return undefined;
+    }
+    const sampled = fields.get('sampled');
+    return {
+        traceId,
+        parentId: fields.get('parent') || undefined,
+        sampled: sampled === '1' ? true : sampled === '0' ? false : undefined,
+    };
+}
+
+/**
+ * Build a W3C `traceparent` for an X-Ray trace. The X-Ray trace ID without its
+ * version and dashes is the W3C trace ID; a missing parent gets a random span ID.
+ */
+export function xrayToTraceparent(traceId: string, parentId: string | undefined, sampled: boolean | undefined): string {
+    const [, time, random] = XRAY_TRACE_ID.exec(traceId) || [];
+    const w3cTraceId = time && random ? `${time}${random}`.toLowerCase() : randomBytes(16).toString('hex');
+    const spanId = parentId && /^[0-9a-f]{16}$/i.test(parentId) ? parentId.toLowerCase() : randomBytes(8).toString('hex');
+    return `00-${w3cTraceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+/**
+ * Read the trace context of an event from its `X-Amzn-Trace-Id` header, falling
+ * back to the `_X_AMZN_TRACE_ID` environment variable of the Lambda runtime.
+ *
+ * @returns The trace context, or `undefined` when neither carries a trace.
+ */
+export function getTraceContext(event: unknown): TraceContext | undefined {
+    return requestTraceContext(findEventSource(event)?.toRequest(event));
+}
+
+/**
+ * Trace context from the headers of a request built by an event source
+ */
+function requestTraceContext(request: EventSourceRequest | undefined): TraceContext | undefined {
+    return traceContextFromHeaders(
+        request && getRequestHeader(request, 'x-amzn-trace-id'),
+        request && getRequestHeader(request, 'traceparent')
+    );
+}
+
+/**
+ * Build the trace context from the `X-Amzn-Trace-Id` and `traceparent` request
+ * headers, for events whose headers are not API Gateway maps; see `getTraceContext`
+ */
+export function traceContextFromHeaders(xrayHeader: string | undefined, traceparent: string | undefined): TraceContext | undefined {
+    xrayHeader = xrayHeader || process.env._X_AMZN_TRACE_ID;
+    const xray = parseXRayTraceHeader(xrayHeader);
+    if (!xray) {
+        return undefined;
+    }
+
+    return {
+        ...xray,
+        traceparent: traceparent && TRACEPARENT.test(traceparent)
+            ? traceparent
+            : xrayToTraceparent(xray.traceId, xray.parentId, xray.sampled),
+        xrayHeader: xrayHeader!,
+    };
+}
+
+/**
+ * Correlation ID for a request: the incoming `headerName` header when the client
+ * sent one, else the X-Ray trace ID, else the API Gateway request ID.
+ */
+export function getCorrelationId(event: unknown, headerName: string): string | undefined {
+    const request = findEventSource(event)?.toRequest(event);
+    return request ? correlationIdFromRequest(request, headerName) : requestTraceContext(undefined)?.traceId;
+}
+
+/**
+ * `getCorrelationId` for a request already built by an event source
+ */
+export function correlationIdFromRequest(request: EventSourceRequest, headerName: string): string | undefined {
+    return getRequestHeader(request, headerName)
+        || requestTraceContext(request)?.traceId
+        || request.requestId;
+}
+
+/**
+ * Describe an invocation for a `TracingHook`. The span name follows the
+ * OpenTelemetry HTTP convention: the method and matched route, or the method
+ * alone when no route is known.
+ */
+export function createTracedInvocation(event: unknown, context: Context): TracedInvocation {
+    const request = requireEventSource(event).toRequest(event);
+    const spanName = request.routeKey && request.routeKey !== '$default' ? request.routeKey : request.method;
+
+    return { event, context, traceContext: requestTraceContext(request), spanName };
+}
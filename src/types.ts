@@ -12,7 +12,22 @@ import type {
   APIGatewayProxyEventV2,
   APIGatewayProxyResultV2,
   APIGatewayProxyStructuredResultV2,
-  Context
+  ALBEvent,
+  ALBResult,
+  Context,
+  SQSEvent,
+  SQSRecord,
+  SQSBatchResponse,
+  SNSEvent,
+  SNSEventRecord,
+  EventBridgeEvent,
+  APIGatewayProxyWebsocketEventV2,
+  APIGatewayEventWebsocketRequestContextV2,
+  APIGatewayEventIdentity,
+  CloudFrontRequestEvent,
+  CloudFrontRequest,
+  CloudFrontResultResponse,
+  CloudFrontHeaders
 } from 'aws-lambda';
 
 // Re-export AWS Lambda types for convenience
@@ -22,9 +37,27 @@ export type {
   APIGatewayProxyEventV2,
   APIGatewayProxyResultV2,
   APIGatewayProxyStructuredResultV2,
-  Context
+  ALBEvent,
+  ALBResult,
+  Context,
+  SQSEvent,
+  SQSRecord,
+  SQSBatchResponse,
+  SNSEvent,
+  SNSEventRecord,
+  EventBridgeEvent,
+  APIGatewayProxyWebsocketEventV2,
+  APIGatewayEventWebsocketRequestContextV2,
+  APIGatewayEventIdentity,
+  CloudFrontRequestEvent,
+  CloudFrontRequest,
+  CloudFrontResultResponse,
+  CloudFrontHeaders
 };
 
+import { type LambdaAuth } from './authorizer';
+import { type TraceContext } from './tracing';
+import { type WebSocketRequestInfo } from './websocket';
 import { EventEmitter } from 'events';
 import { Readable, Writable } from 'stream';
 
@@ -52,13 +85,61 @@ export function isAPIGatewayV2(event: APIGatewayEvent): event is APIGatewayProxy
   return !!event && 'requestContext' in event && 'http' in event.requestContext;
 }
 
+/**
+ * Type guard to check if event is from an Application Load Balancer target group
+ */
+export function isALBEvent(event: any): event is ALBEvent {
+  return !!event && !!event.requestContext && 'elb' in event.requestContext;
+}
+
+/**
+ * Type guard to check if event is a batch of SQS messages
+ */
+export function isSQSEvent(event: any): event is SQSEvent {
+  return !!event && Array.isArray(event.Records) && event.Records[0]?.eventSource === 'aws:sqs';
+}
+
+/**
+ * Type guard to check if event is a batch of SNS notifications
+ */
+export function isSNSEvent(event: any): event is SNSEvent {
+  return !!event && Array.isArray(event.Records) && event.Records[0]?.EventSource === 'aws:sns';
+}
+
+/**
+ * Type guard to check if event was delivered by an EventBridge rule
+ */
+export function isEventBridgeEvent(event: any): event is EventBridgeEvent<string, unknown> {
+  return !!event && typeof event['detail-type'] === 'string' && typeof event.source === 'string' && 'detail' in event;
+}
+
+/**
+ * Type guard to check if event is a CloudFront (Lambda@Edge) viewer or origin request
+ */
+export function isCloudFrontRequestEvent(event: any): event is CloudFrontRequestEvent {
+  const cf = !!event && Array.isArray(event.Records) ? event.Records[0]?.cf : undefined;
+  return !!cf && !!cf.request && (cf.config?.eventType === 'origin-request' || cf.config?.eventType === 'viewer-request');
+}
+
 /**
  * Extended Express Request interface that includes Lambda-specific properties
  */
 export interface ExpressifyRequest extends Request {
   // Lambda-specific properties
-  lambdaEvent: APIGatewayEvent;
-  lambdaContext: Context;
+  /** The raw invocation event, in the format of its event source */
+  lambdaEvent: unknown;
+  lambdaContext: Context | undefined;
+  awsRequestId: string | undefined;
+  functionName: string | undefined;
+  getRemainingTimeInMillis(): number | undefined;
+  apiGatewayRequestId: string | undefined;
+  stage: string | undefined;
+  routeKey: string | undefined;
+  lambdaAuth: LambdaAuth | undefined;
+  traceContext: TraceContext | undefined;
+  webSocket: WebSocketRequestInfo | undefined;
+  bodyTruncated: boolean;
+  originalLambdaPath: string;
 }
 
 /**
@@ -72,7 +153,12 @@ export interface ExpressifyResponse extends Response {
 /**
  * Detect the API Gateway version from a Lambda event
  */
-export function detectApiGatewayVersion(event: any): 'v1' | 'v2' {
+export function detectApiGatewayVersion(event: any): 'v1' | 'v2' | 'alb' {
+    // ALB target group events carry the target group in 'requestContext.elb'
+    if (isALBEvent(event)) {
+        return 'alb';
+    }
+
     // API Gateway v2 has a 'version' field set to '2.0'
     if (event.version === '2.0') {
         return 'v2';
@@ -102,7 +188,7 @@ export function isApiGatewayV2(event: any): event is APIGatewayProxyEventV2 {
 }
 
 /**
- * Validate that the event is a valid API Gateway event
+ * Validate that the event is a valid API Gateway or ALB event
  */
 export function validateApiGatewayEvent(event: any): boolean {
     if (!event || typeof event !== 'object') {
@@ -111,7 +197,7 @@ export function validateApiGatewayEvent(event: any): boolean {
     
     const version = detectApiGatewayVersion(event);
     
-    if (version === 'v1') {
+    if (version === 'v1' || version === 'alb') {
         return !!(event.httpMethod && event.path);
     } else {
         return !!(event.routeKey && event.rawPath);
@@ -3,13 +3,22 @@
  * Provides common operations and metaprogramming utilities
  */
 
-import { type APIGatewayEvent, isAPIGatewayV1, isAPIGatewayV2 } from './types';
+import { type APIGatewayEvent, type ALBEvent, isAPIGatewayV1, isAPIGatewayV2, isALBEvent } from './types';
 import debug from 'debug';
 
 export function createDebugger(namespace: string) {
     return debug(`event-http:${namespace}`);
 }
 
+/**
+ * Enable debug output for every `event-http:*` namespace, keeping any
+ * namespaces already enabled through `DEBUG`
+ */
+export function enableDebug() {
+    const enabled = debug.disable();
+    debug.enable(enabled ? `${enabled},event-http:*` : 'event-http:*');
+}
+
 // Buffer is available in Node.js runtime
 declare const Buffer: {
   from(data: string, encoding: string): { toString(encoding: string): string };
@@ -418,34 +427,65 @@ export function setAppSubdomainLength(length: number) {
   AppSubdomainLength = length;
 }
 
+/**
+ * Read a request header from an event, ignoring case and falling back to
+ * `multiValueHeaders` (first value) when the single-value map lacks it
+ */
+export function getEventHeader(event: APIGatewayEvent | ALBEvent, name: string): string | undefined {
+  const key = name.toLowerCase();
+  for (const [header, value] of Object.entries(event.headers || {})) {
+    if (header.toLowerCase() === key && typeof value === 'string') {
+      return value;
+    }
+  }
+  const multiValueHeaders = 'multiValueHeaders' in event ? event.multiValueHeaders : undefined;
+  for (const [header, values] of Object.entries(multiValueHeaders || {})) {
+    if (header.toLowerCase() === key && values && values.length > 0) {
+      return values[0];
+    }
+  }
+  return undefined;
+}
+
 /**
  * Determine if the request is secure (HTTPS)
  */
-export function isSecure(event: APIGatewayEvent): boolean {
-  const headers = event.headers || {};
-  const forwardedProto = headers['x-forwarded-proto'] || headers['X-Forwarded-Proto'];
-  return forwardedProto === 'https';
+export function isSecure(event: APIGatewayEvent | ALBEvent): boolean {
+  return getEventHeader(event, 'x-forwarded-proto') === 'https';
 }
 
 /**
- * Extract the client IP address
+ * Extract the source IP API Gateway recorded for the connection, if any
  */
-export function getClientIP(event: APIGatewayEvent): string {
-  const headers = event.headers || {};
-  
-  if (isAPIGatewayV1(event)) {
-    return headers['x-forwarded-for'] || 
-           headers['X-Forwarded-For'] || 
-           event.requestContext?.identity?.sourceIp || 
-           '127.0.0.1';
+export function getSourceIP(event: APIGatewayEvent | ALBEvent): string | undefined {
+  if (isALBEvent(event)) {
+    return undefined;
+  } else if (isAPIGatewayV1(event)) {
+    return event.requestContext?.identity?.sourceIp || undefined;
   } else if (isAPIGatewayV2(event)) {
-    return headers['x-forwarded-for'] || 
-           headers['X-Forwarded-For'] || 
-           event.requestContext?.http?.sourceIp || 
-           '127.0.0.1';
+    return event.requestContext?.http?.sourceIp || undefined;
   }
-  
-  return '127.0.0.1';
+  return undefined;
+}
+
+/**
+ * Extract the client IP address: the first `X-Forwarded-For` entry, then the
+ * source IP from the request context
+ */
+export function getClientIP(event: APIGatewayEvent | ALBEvent): string {
+  const forwardedFor = getEventHeader(event, 'x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return getSourceIP(event) || '127.0.0.1';
+}
+
+/**
+ * Extract the port the client connected to from `X-Forwarded-Port`
+ */
+export function getForwardedPort(event: APIGatewayEvent | ALBEvent): number | undefined {
+  const port = parseInt(getEventHeader(event, 'x-forwarded-port') || '', 10);
+  return Number.isInteger(port) && port > 0 ? port : undefined;
 }
 
 /**
@@ -511,6 +551,56 @@ export function normalizeHeaders(headers: { [key: string]: string } | null): { [
   return normalized;
 } 
 
+/**
+ * Connection-level headers that describe framing the Lambda result does not use
+ */
+export const HOP_BY_HOP_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding']);
+
+/**
+ * Media types that are always textual, in addition to `text/*`
+ */
+const TEXT_MEDIA_TYPES = new Set([
+  'application/json',
+  'application/javascript',
+  'application/ecmascript',
+  'application/xml',
+  'application/x-www-form-urlencoded',
+  'application/graphql',
+  'application/ld+json',
+  'image/svg+xml',
+]);
+
+/**
+ * Strip parameters (e.g. `; charset=utf-8`) and normalize a Content-Type value
+ */
+export function parseMediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Determine if a Content-Type describes text that can be returned as a UTF-8 string
+ */
+export function isTextMediaType(contentType: string): boolean {
+  const mediaType = parseMediaType(contentType);
+  return mediaType.startsWith('text/') ||
+         TEXT_MEDIA_TYPES.has(mediaType) ||
+         mediaType.endsWith('+json') ||
+         mediaType.endsWith('+xml');
+}
+
+/**
+ * Determine if a Content-Type matches any of the given media type patterns.
+ * Patterns may use wildcards: `image/*` or `*\/*`.
+ */
+export function matchesMediaType(contentType: string, patterns: string[]): boolean {
+  const [type, subtype] = parseMediaType(contentType).split('/');
+  return patterns.some((pattern) => {
+    const [patternType, patternSubtype] = parseMediaType(pattern).split('/');
+    return (patternType === '*' || patternType === type) &&
+           (patternSubtype === '*' || patternSubtype === subtype);
+  });
+}
+
 export function prettyPrintBuffer(buffer: Buffer | string): string {
   // Print out all the characters, replacing unprintable characters with '.' 
   let result = '';
@@ -0,0 +1,198 @@
+/**
+ * API Gateway WebSocket API support: route events become `POST /<routeKey>`
+ * requests, and messages are pushed back to clients through a pluggable
+ * `postToConnection`
+ */
+
+import {
+    type APIGatewayEventIdentity,
+    type APIGatewayEventWebsocketRequestContextV2,
+    type APIGatewayProxyEvent,
+    type APIGatewayProxyWebsocketEventV2,
+} from './types';
+import { createDebugger } from './util';
+
+const debug = createDebugger('WebSocket');
+
+/**
+ * A WebSocket API event. `$connect` events also carry the handshake headers.
+ */
+export type WebSocketEvent = APIGatewayProxyWebsocketEventV2 & {
+    requestContext: {
+        identity?: Partial<APIGatewayEventIdentity>;
+        /** Lambda authorizer context, on `$connect` and the routes after it */
+        authorizer?: APIGatewayProxyEvent['requestContext']['authorizer'];
+    };
+    headers?: { [name: string]: string | undefined };
+    multiValueHeaders?: { [name: string]: string[] | undefined };
+};
+
+/**
+ * Where a WebSocket API accepts `@connections` calls
+ */
+export interface WebSocketEndpoint {
+    domainName: string;
+    stage: string;
+}
+
+/**
+ * Pushes messages to connected clients, e.g. through the API Gateway Management
+ * API's `PostToConnection`
+ */
+export interface WebSocketConnections {
+    postToConnection(connectionId: string, data: string | Buffer, endpoint: WebSocketEndpoint): Promise<void>;
+}
+
+/**
+ * The WebSocket connection a request belongs to, as `req.webSocket`
+ */
+export interface WebSocketRequestInfo {
+    connectionId: string;
+    eventType: 'CONNECT' | 'MESSAGE' | 'DISCONNECT';
+    routeKey: string;
+    /** Set for `MESSAGE` events */
+    messageId: string | undefined;
+    connectedAt: number;
+    domainName: string;
+    stage: string;
+    /** Send a message to this connection */
+    send(data: string | Buffer): Promise<void>;
+    /** Send a message to any connection of the same API, e.g. to broadcast */
+    postToConnection(connectionId: string, data: string | Buffer): Promise<void>;
+}
+
+/**
+ * Determine if an event comes from a WebSocket API
+ */
+export function isWebSocketEvent(event: any): event is WebSocketEvent {
+    return !!event && !!event.requestContext &&
+        typeof event.requestContext.connectionId === 'string' &&
+        typeof event.requestContext.eventType === 'string';
+}
+
+/**
+ * Fill the REST API identity from what a WebSocket event carries (`sourceIp`, `userAgent`)
+ */
+function webSocketIdentity(identity: Partial<APIGatewayEventIdentity> = {}): APIGatewayEventIdentity {
+    return {
+        accessKey: null,
+        accountId: null,
+        apiKey: null,
+        apiKeyId: null,
+        caller: null,
+        clientCert: null,
+        cognitoAuthenticationProvider: null,
+        cognitoAuthenticationType: null,
+        cognitoIdentityId: null,
+        cognitoIdentityPoolId: null,
+        principalOrgId: null,
+        user: null,
+        userAgent: null,
+        userArn: null,
+        ...identity,
+        sourceIp: identity.sourceIp || '',
+    };
+}
+
+/**
+ * Convert a WebSocket API event into a REST API (v1) event for a `POST /<routeKey>`
+ * request (`/$connect`, `/$disconnect`, `/$default` or a custom route). The
+ * connection metadata stays in `requestContext`.
+ */
+export function toWebSocketRequestEvent(event: WebSocketEvent): APIGatewayProxyEvent {
+    const requestContext = event.requestContext;
+    const path = `/${requestContext.routeKey}`;
+
+    return {
+        resource: path,
+        path,
+        httpMethod: 'POST',
+        headers: event.headers || {},
+        multiValueHeaders: event.multiValueHeaders || {},
+        queryStringParameters: event.queryStringParameters ?? null,
+        multiValueQueryStringParameters: event.multiValueQueryStringParameters ?? null,
+        pathParameters: null,
+        stageVariables: event.stageVariables ?? null,
+        requestContext: {
+            ...requestContext,
+            accountId: '',
+            authorizer: requestContext.authorizer,
+            identity: webSocketIdentity(requestContext.identity),
+            httpMethod: 'POST',
+            path: `/${requestContext.stage}${path}`,
+            protocol: 'HTTP/1.1',
+            resourceId: requestContext.routeKey,
+            resourcePath: path,
+        },
+        body: event.body ?? null,
+        isBase64Encoded: event.isBase64Encoded ?? false,
+    };
+}
+
+/**
+ * Build `req.webSocket` from the request context of a converted WebSocket event
+ *
+ * @returns The connection info, or `undefined` when the event is not from a WebSocket API.
+ */
+export function getWebSocketRequestInfo(
+    event: unknown,
+    connections: WebSocketConnections | undefined
+): WebSocketRequestInfo | undefined {
+    if (!isWebSocketEvent(event)) {
+        return undefined;
+    }
+
+    const requestContext: APIGatewayEventWebsocketRequestContextV2 = event.requestContext;
+    const endpoint: WebSocketEndpoint = { domainName: requestContext.domainName, stage: requestContext.stage };
+    const postToConnection = async (connectionId: string, data: string | Buffer): Promise<void> => {
+        if (!connections) {
+            throw new Error('No WebSocket connections client configured (webSocketConnections option)');
+        }
+        debug('postToConnection', connectionId, data.length);
+        await connections.postToConnection(connectionId, data, endpoint);
+    };
+
+    return {
+        connectionId: requestContext.connectionId,
+        eventType: requestContext.eventType,
+        routeKey: requestContext.routeKey,
+        messageId: requestContext.messageId || undefined,
+        connectedAt: requestContext.connectedAt,
+        domainName: requestContext.domainName,
+        stage: requestContext.stage,
+        send: (data) => postToConnection(requestContext.connectionId, data),
+        postToConnection,
+    };
+}
+
+/**
+ * In-memory `WebSocketConnections` for tests and local development: records
+ * every message, and fails like API Gateway (410 Gone) for disconnected clients.
+ */
+export class InMemoryWebSocketConnections implements WebSocketConnections {
+    private _messages = new Map<string, Buffer[]>();
+    private _gone = new Set<string>();
+
+    async postToConnection(connectionId: string, data: string | Buffer): Promise<void> {
+        if (this._gone.has(connectionId)) {
+            throw Object.assign(new Error(`Connection ${connectionId} is gone`), { name: 'GoneException', statusCode: 410 });
+        }
+        const messages = this._messages.get(connectionId) || [];
+        messages.push(Buffer.from(data));
+        this._messages.set(connectionId, messages);
+    }
+
+    /**
+     * Messages sent to a connection, decoded as UTF-8
+     */
+    messages(connectionId: string): string[] {
+        return (this._messages.get(connectionId) || []).map((message) => message.toString('utf8'));
+    }
+
+    /**
+     * Mark a connection as closed by the client
+     */
+    disconnect(connectionId: string): void {
+        this._gone.add(connectionId);
+    }
+}
@@ -0,0 +1,218 @@
+/**
+ * Tests for the per-invocation access log
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { PassThrough } from 'stream';
+
+import {
+  type AccessLogEntry,
+  buildALBEvent,
+  buildContext,
+  buildV1Event,
+  buildV2Event,
+  type EventSource,
+  createAccessLogEntry,
+  createCloudFrontHandler,
+  createFetchHandler,
+  createHandler,
+  createStreamingHandler,
+  fetchify,
+  registerEventSource,
+  resetColdStart,
+} from '../src/index';
+import { cloudFrontOriginRequestEvent } from './fixtures/events';
+
+const app = (_req: IncomingMessage, res: ServerResponse) => {
+  res.statusCode = 201;
+  res.end('created');
+};
+
+describe('createAccessLogEntry', () => {
+  it('should describe a v2 invocation', () => {
+    const event = buildV2Event({
+      method: 'POST',
+      url: '/orders?x=1',
+      headers: { 'user-agent': 'curl/8.0', 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+    });
+    const context = buildContext();
+
+    const entry = createAccessLogEntry(event, context, { statusCode: 201, body: 'created' }, { startTime: Date.now(), coldStart: false });
+
+    expect(entry).toMatchObject({
+      method: 'POST',
+      path: '/orders',
+      status: 201,
+      bytes: 7,
+      clientIp: '203.0.113.7',
+      userAgent: 'curl/8.0',
+      requestId: event.requestContext.requestId,
+      awsRequestId: context.awsRequestId,
+      coldStart: false,
+    });
+    expect(entry.duration).toBeGreaterThanOrEqual(0);
+    expect(new Date(entry.time).toISOString()).toBe(entry.time);
+  });
+
+  it('should count decoded bytes of base64 bodies', () => {
+    const entry = createAccessLogEntry(
+      buildV1Event(),
+      undefined,
+      { statusCode: 200, body: Buffer.from([1, 2, 3, 4]).toString('base64'), isBase64Encoded: true },
+      { startTime: Date.now(), coldStart: false }
+    );
+
+    expect(entry.bytes).toBe(4);
+    expect(entry.method).toBe('GET');
+  });
+
+  it('should leave the request ID empty for ALB events', () => {
+    const entry = createAccessLogEntry(buildALBEvent({ url: '/health' }), undefined, { statusCode: 200 }, { startTime: Date.now(), coldStart: false });
+
+    expect(entry.path).toBe('/health');
+    expect(entry.requestId).toBeUndefined();
+  });
+});
+
+describe('accessLog option', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write one entry per invocation, flagging only the first as a cold start', async () => {
+    const entries: AccessLogEntry[] = [];
+    const handler = createHandler(app, { accessLog: { sink: (entry) => entries.push(entry) } });
+
+    await handler(buildV2Event({ url: '/a' }), buildContext());
+    await handler(buildV2Event({ url: '/b' }), buildContext());
+
+    expect(entries.map((entry) => [entry.path, entry.status, entry.bytes])).toEqual([['/a', 201, 7], ['/b', 201, 7]]);
+    expect(entries[1].coldStart).toBe(false);
+  });
+
+  it('should flag the first invocation after resetColdStart as a cold start', async () => {
+    const entries: AccessLogEntry[] = [];
+    const handler = createHandler(app, { accessLog: { sink: (entry) => entries.push(entry) } });
+
+    resetColdStart();
+    await handler(buildV2Event(), buildContext());
+    await handler(buildV2Event(), buildContext());
+
+    expect(entries.map((entry) => entry.coldStart)).toEqual([true, false]);
+  });
+
+  it('should count the bytes of streamed responses', async () => {
+    const entries: AccessLogEntry[] = [];
+    const stream = Object.assign(new PassThrough(), { setContentType: () => {} });
+    stream.resume();
+    const handler = createStreamingHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.write('id,name\n');
+      res.end('1,alice\n');
+    }, { accessLog: { sink: (entry) => entries.push(entry) } });
+
+    await handler(buildV2Event({ url: '/export' }), stream, buildContext());
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ path: '/export', status: 200, bytes: 16 });
+  });
+
+  it('should write JSON lines to stdout by default', async () => {
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const handler = createHandler(app, { accessLog: true });
+
+    await handler(buildV1Event({ url: '/json' }), buildContext());
+
+    expect(write).toHaveBeenCalledTimes(1);
+    const line = String(write.mock.calls[0][0]);
+    expect(line.endsWith('\n')).toBe(true);
+    expect(JSON.parse(line)).toMatchObject({ method: 'GET', path: '/json', status: 201 });
+  });
+
+  it('should sample invocations', async () => {
+    const sink = jest.fn();
+    const handler = createHandler(app, { accessLog: { sink, sampleRate: 0.5 } });
+
+    jest.spyOn(Math, 'random').mockReturnValueOnce(0.7).mockReturnValueOnce(0.2);
+    await handler(buildV2Event(), buildContext());
+    await handler(buildV2Event(), buildContext());
+
+    expect(sink).toHaveBeenCalledTimes(1);
+  });
+
+  it('should describe CloudFront invocations from the request and response', async () => {
+    const entries: AccessLogEntry[] = [];
+    const handler = createCloudFrontHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = 404;
+      res.end('no such order');
+    }, { accessLog: { sink: (entry) => entries.push(entry) } });
+
+    await handler(cloudFrontOriginRequestEvent, buildContext());
+
+    expect(entries[0]).toMatchObject({
+      method: 'POST',
+      path: '/api/orders',
+      status: 404,
+      bytes: 13,
+      clientIp: '203.0.113.178',
+      requestId: cloudFrontOriginRequestEvent.Records[0].cf.config.requestId,
+    });
+  });
+
+  it('should describe invocations of custom event sources', async () => {
+    const source: EventSource<{ custom: true }, { code: number, payload: string }> = {
+      name: 'custom',
+      matches: (event: any): event is { custom: true } => event?.custom === true,
+      toRequest: () => ({
+        method: 'PUT',
+        path: '/items/1',
+        query: '',
+        headers: [['user-agent', 'job-runner/2']],
+        body: undefined,
+        remoteAddress: '10.0.0.9',
+        requestId: 'job-42',
+      }),
+      toResult: (parts) => ({ code: parts.statusCode ?? 200, payload: parts.body.toString() }),
+    };
+    const unregister = registerEventSource(source);
+    const entries: AccessLogEntry[] = [];
+
+    try {
+      await fetchify(() => new Response('saved', { status: 202 }), { custom: true }, buildContext(), {
+        accessLog: { sink: (entry) => entries.push(entry) },
+      });
+    } finally {
+      unregister();
+    }
+
+    expect(entries[0]).toMatchObject({
+      method: 'PUT',
+      path: '/items/1',
+      status: 202,
+      bytes: 5,
+      clientIp: '10.0.0.9',
+      userAgent: 'job-runner/2',
+      requestId: 'job-42',
+    });
+  });
+
+  it('should log error results and survive a failing sink', async () => {
+    const sink = jest.fn(() => {
+      throw new Error('sink down');
+    });
+    const handler = createFetchHandler(() => {
+      throw new Error('boom');
+    }, { accessLog: { sink } });
+
+    const result = await handler(buildV2Event(), buildContext());
+
+    expect((result as any).statusCode).toBe(500);
+    expect(sink).toHaveBeenCalledWith(expect.objectContaining({ status: 500 }));
+  });
+
+  it('should not log unless enabled', async () => {
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await createHandler(app)(buildV2Event(), buildContext());
+
+    expect(write).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for authorizer identity normalization
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type Context } from 'aws-lambda';
+
+import { createHandler, getLambdaAuth, requireScopes, LambdaIncomingMessage } from '../src/index';
+import { albEvent, apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
+
+function withV1Authorizer(authorizer: { [name: string]: any }) {
+  return { ...apiGatewayV1Event, requestContext: { ...apiGatewayV1Event.requestContext, authorizer } };
+}
+
+function withV2Authorizer(authorizer: { [name: string]: any }) {
+  return { ...apiGatewayV2Event, requestContext: { ...apiGatewayV2Event.requestContext, authorizer } } as any;
+}
+
+describe('getLambdaAuth', () => {
+  it('should normalize v1 Cognito user pool claims', () => {
+    const auth = getLambdaAuth(withV1Authorizer({
+      claims: { sub: 'user-1', email: 'a@example.com', scope: 'read write' }
+    }));
+    expect(auth).toEqual({
+      type: 'cognito',
+      principalId: 'user-1',
+      claims: { sub: 'user-1', email: 'a@example.com', scope: 'read write' },
+      scopes: ['read', 'write'],
+      context: {}
+    });
+  });
+
+  it('should normalize v1 Lambda authorizer context', () => {
+    const auth = getLambdaAuth(withV1Authorizer({
+      principalId: 'user-2',
+      integrationLatency: 12,
+      tenant: 'acme'
+    }));
+    expect(auth).toEqual({
+      type: 'lambda',
+      principalId: 'user-2',
+      claims: {},
+      scopes: [],
+      context: { tenant: 'acme' }
+    });
+  });
+
+  it('should normalize v2 JWT authorizer claims and scopes', () => {
+    const auth = getLambdaAuth(withV2Authorizer({
+      principalId: '',
+      integrationLatency: 0,
+      jwt: { claims: { sub: 'user-3' }, scopes: ['orders:read'] }
+    }));
+    expect(auth).toEqual({
+      type: 'jwt',
+      principalId: 'user-3',
+      claims: { sub: 'user-3' },
+      scopes: ['orders:read'],
+      context: {}
+    });
+  });
+
+  it('should read scopes from the JWT scope claim when scopes is null', () => {
+    const auth = getLambdaAuth(withV2Authorizer({
+      jwt: { claims: { sub: 'user-3', scope: 'a b' }, scopes: null }
+    }));
+    expect(auth?.scopes).toEqual(['a', 'b']);
+  });
+
+  it('should normalize v2 Lambda authorizer context', () => {
+    const auth = getLambdaAuth(withV2Authorizer({ lambda: { userId: 'user-4', plan: 'pro' } }));
+    expect(auth).toEqual({
+      type: 'lambda',
+      principalId: undefined,
+      claims: {},
+      scopes: [],
+      context: { userId: 'user-4', plan: 'pro' }
+    });
+  });
+
+  it('should normalize v2 IAM caller details', () => {
+    const auth = getLambdaAuth(withV2Authorizer({
+      iam: { userArn: 'arn:aws:iam::123456789012:user/alice', userId: 'AIDA' }
+    }));
+    expect(auth).toMatchObject({ type: 'iam', principalId: 'arn:aws:iam::123456789012:user/alice' });
+  });
+
+  it('should return undefined without an authorizer', () => {
+    expect(getLambdaAuth(apiGatewayV1Event)).toBeUndefined();
+    expect(getLambdaAuth(apiGatewayV2Event)).toBeUndefined();
+    expect(getLambdaAuth(albEvent)).toBeUndefined();
+  });
+
+  it('should be available on the request', () => {
+    const request = new LambdaIncomingMessage(withV1Authorizer({ claims: { sub: 'user-1' } }));
+    expect(request.lambdaAuth?.principalId).toBe('user-1');
+  });
+});
+
+describe('requireScopes', () => {
+  const context = { awsRequestId: 'test-aws-request-id' } as Context;
+  const handler = createHandler((req: IncomingMessage, res: ServerResponse) => {
+    requireScopes('orders:read')(req, res, () => res.end('ok'));
+  });
+
+  it('should pass requests that have the required scopes', async () => {
+    const event = withV2Authorizer({ jwt: { claims: { sub: 'user-3' }, scopes: ['orders:read'] } });
+    expect(await handler(event, context)).toMatchObject({ statusCode: 200, body: 'ok' });
+  });
+
+  it('should reject requests missing a scope with 403', async () => {
+    const event = withV2Authorizer({ jwt: { claims: { sub: 'user-3' }, scopes: ['orders:write'] } });
+    expect(await handler(event, context)).toMatchObject({ statusCode: 403 });
+  });
+
+  it('should reject requests without an identity with 401', async () => {
+    expect(await handler(apiGatewayV2Event, context)).toMatchObject({ statusCode: 401 });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for CloudFront Lambda@Edge support
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+import {
+  buildContext,
+  cloudFrontEventSource,
+  createCloudFrontHandler,
+  createRequestResponsePair,
+  fetchify,
+  findEventSource,
+  isBlockedEdgeHeader,
+  isCloudFrontRequestEvent,
+  toCloudFrontResult,
+} from '../src/index';
+import { apiGatewayV1Event, cloudFrontOriginRequestEvent } from './fixtures/events';
+import { readBody } from './fixtures/listeners';
+
+function withHeaders(headers: { [name: string]: string }) {
+  const [record] = cloudFrontOriginRequestEvent.Records;
+  const extra = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), [{ key, value }]]));
+  return { Records: [{ cf: { ...record.cf, request: { ...record.cf.request, headers: { ...record.cf.request.headers, ...extra } } } }] };
+}
+
+function withEventType(eventType: 'origin-request' | 'viewer-request') {
+  const [record] = cloudFrontOriginRequestEvent.Records;
+  return { Records: [{ cf: { ...record.cf, config: { ...record.cf.config, eventType } } }] };
+}
+
+describe('isCloudFrontRequestEvent', () => {
+  it('should recognize viewer and origin request events', () => {
+    expect(isCloudFrontRequestEvent(cloudFrontOriginRequestEvent)).toBe(true);
+    expect(isCloudFrontRequestEvent(withEventType('viewer-request'))).toBe(true);
+    expect(isCloudFrontRequestEvent(apiGatewayV1Event)).toBe(false);
+    expect(findEventSource(cloudFrontOriginRequestEvent)).toBe(cloudFrontEventSource);
+  });
+});
+
+describe('CloudFront requests', () => {
+  it('should build the request from Records[0].cf.request', async () => {
+    const { request } = createRequestResponsePair(cloudFrontOriginRequestEvent);
+
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/api/orders?expand=items&tag=a&tag=b');
+    expect(request.headers['host']).toBe('origin.example.com');
+    expect(request.headers['cookie']).toBe('session=abc; theme=dark');
+    expect(request.headers['content-length']).toBe('10');
+    expect(request.rawHeaders).toContain('Content-Type');
+    expect(request.socket.remoteAddress).toBe('203.0.113.178');
+    expect((request.socket as unknown as { encrypted: boolean }).encrypted).toBe(true);
+    expect(request.apiGatewayRequestId).toBe('4TyzHTaYWb1GX1qTfsHhEqV6HUDd_BzoBZnwfnvQc_1oF26ClkoUSEQ==');
+    expect((await readBody(request)).toString()).toBe('{"item":1}');
+  });
+
+  it('should have no body unless includeBody is set', () => {
+    const [record] = cloudFrontOriginRequestEvent.Records;
+    const event = { Records: [{ cf: { ...record.cf, request: { ...record.cf.request, method: 'GET', body: undefined } } }] };
+    const { request } = createRequestResponsePair(event);
+
+    expect(request.headers['content-length']).toBeUndefined();
+  });
+
+  it('should flag bodies CloudFront truncated', () => {
+    const [record] = cloudFrontOriginRequestEvent.Records;
+    const event = { Records: [{ cf: { ...record.cf, request: { ...record.cf.request, body: { ...record.cf.request.body!, inputTruncated: true } } } }] };
+
+    expect(createRequestResponsePair(event).request.bodyTruncated).toBe(true);
+    expect(createRequestResponsePair(cloudFrontOriginRequestEvent).request.bodyTruncated).toBe(false);
+  });
+});
+
+describe('toCloudFrontResult', () => {
+  it('should serialize status, headers and text bodies', () => {
+    const result = toCloudFrontResult({
+      statusCode: 201,
+      headers: { 'content-type': 'text/plain' },
+      multiValueHeaders: { 'set-cookie': ['a=1', 'b=2'] },
+      body: Buffer.from('created'),
+    });
+
+    expect(result).toEqual({
+      status: '201',
+      statusDescription: 'Created',
+      headers: {
+        'content-type': [{ key: 'content-type', value: 'text/plain' }],
+        'set-cookie': [{ key: 'set-cookie', value: 'a=1' }, { key: 'set-cookie', value: 'b=2' }],
+      },
+      bodyEncoding: 'text',
+      body: 'created',
+    });
+  });
+
+  it('should base64-encode binary bodies', () => {
+    const result = toCloudFrontResult({
+      statusCode: 200,
+      headers: { 'content-type': 'image/png' },
+      multiValueHeaders: {},
+      body: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+    }, ['image/*']);
+
+    expect(result.bodyEncoding).toBe('base64');
+    expect(result.body).toBe(Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64'));
+  });
+
+  it('should drop headers CloudFront rejects', () => {
+    const result = toCloudFrontResult({
+      statusCode: 200,
+      headers: { 'connection': 'keep-alive', 'x-cache': 'HIT', 'x-amz-cf-pop': 'FRA', 'x-powered-by': 'test' },
+      multiValueHeaders: {},
+      body: Buffer.alloc(0),
+    });
+
+    expect(Object.keys(result.headers!)).toEqual(['x-powered-by']);
+    expect(isBlockedEdgeHeader('X-Edge-Location')).toBe(true);
+    expect(isBlockedEdgeHeader('Via')).toBe(true);
+    expect(isBlockedEdgeHeader('Cache-Control')).toBe(false);
+  });
+
+  it('should drop X-Accel-* headers by prefix', () => {
+    expect(isBlockedEdgeHeader('X-Accel-Redirect')).toBe(true);
+    expect(isBlockedEdgeHeader('x-accel-expires')).toBe(true);
+    expect(isBlockedEdgeHeader('X-Accelerated')).toBe(false);
+  });
+});
+
+describe('createCloudFrontHandler', () => {
+  it('should return a CloudFront generated response', async () => {
+    const handler = createCloudFrontHandler((req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('content-type', 'text/html');
+      res.setHeader('keep-alive', 'timeout=5');
+      res.end(`<p>${req.method} ${req.url}</p>`);
+    });
+
+    const result = await handler(cloudFrontOriginRequestEvent, buildContext());
+
+    expect(result.status).toBe('200');
+    expect(result.statusDescription).toBe('OK');
+    expect(result.headers?.['content-type']).toEqual([{ key: 'content-type', value: 'text/html' }]);
+    expect(result.headers?.['keep-alive']).toBeUndefined();
+    expect(result.body).toBe('<p>POST /api/orders?expand=items&tag=a&tag=b</p>');
+  });
+
+  it('should enforce the origin request size limit', async () => {
+    const handler = createCloudFrontHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.end('x'.repeat(2 * 1024 * 1024));
+    });
+
+    const result = await handler(cloudFrontOriginRequestEvent, buildContext());
+
+    expect(result.status).toBe('502');
+    expect(result.body).toBe(JSON.stringify({ message: 'Bad Gateway' }));
+  });
+
+  it('should enforce the smaller viewer request size limit', async () => {
+    const handler = createCloudFrontHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.end('x'.repeat(64 * 1024));
+    }, { payloadLimit: { statusCode: 413 } });
+
+    const origin = await handler(cloudFrontOriginRequestEvent, buildContext());
+    const viewer = await handler(withEventType('viewer-request'), buildContext());
+
+    expect(origin.status).toBe('200');
+    expect(viewer.status).toBe('413');
+  });
+
+  it('should serve Fetch API handlers', async () => {
+    const result = await fetchify(async (request) => new Response(`${request.url} ${await request.text()}`), cloudFrontOriginRequestEvent, buildContext());
+
+    expect(result.status).toBe('200');
+    expect(result.body).toBe('https://origin.example.com/api/orders?expand=items&tag=a&tag=b {"item":1}');
+  });
+
+  it('should read the correlation ID and Accept-Encoding from the CloudFront headers', async () => {
+    const event = withHeaders({ 'X-Request-Id': 'req-42', 'Accept-Encoding': 'gzip' });
+    const options = { correlationIdHeader: 'x-request-id', compression: true };
+    const body = 'compress me '.repeat(200);
+    const listener = createCloudFrontHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('content-type', 'text/plain');
+      res.end(body);
+    }, options);
+    const fetch = async () => new Response(body, { headers: { 'content-type': 'text/plain' } });
+
+    for (const result of [await listener(event, buildContext()), await fetchify(fetch, event, buildContext(), options)]) {
+      expect(result.headers?.['x-request-id']).toEqual([{ key: 'x-request-id', value: 'req-42' }]);
+      expect(result.headers?.['content-encoding']).toEqual([{ key: 'content-encoding', value: 'gzip' }]);
+      expect(result.bodyEncoding).toBe('base64');
+    }
+  });
+
+  it('should pass the CloudFront trace headers to the tracing hook', async () => {
+    const event = withHeaders({ 'X-Amzn-Trace-Id': 'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1' });
+    const tracing = jest.fn((_invocation, run) => run());
+    const handler = createCloudFrontHandler((_req: IncomingMessage, res: ServerResponse) => res.end(), { tracing });
+
+    await handler(event, buildContext());
+
+    expect(tracing.mock.calls[0][0]).toMatchObject({
+      spanName: 'POST',
+      traceContext: { traceId: '1-5759e988-bd862e3fe1be46a994272793', parentId: '53995c3f42cd8ad8' },
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for response compression
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { brotliDecompressSync, gunzipSync, gzipSync, inflateSync } from 'zlib';
+
+import { compressResponse, createHandler, invoke, negotiateEncoding, type ResponseParts } from '../src/index';
+
+const largeJson = JSON.stringify({ items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `item ${i}` })) });
+
+function jsonParts(body: string, headers: ResponseParts['headers'] = {}): ResponseParts {
+  return {
+    statusCode: 200,
+    headers: { 'content-type': 'application/json', ...headers },
+    multiValueHeaders: {},
+    body: Buffer.from(body),
+  };
+}
+
+describe('negotiateEncoding', () => {
+  it('should prefer brotli, then gzip, then deflate', () => {
+    expect(negotiateEncoding('gzip, deflate, br')).toBe('br');
+    expect(negotiateEncoding('gzip, deflate')).toBe('gzip');
+    expect(negotiateEncoding('deflate')).toBe('deflate');
+  });
+
+  it('should honor q-values and wildcards', () => {
+    expect(negotiateEncoding('br;q=0.5, gzip')).toBe('gzip');
+    expect(negotiateEncoding('br;q=0, *')).toBe('gzip');
+    expect(negotiateEncoding('identity')).toBeUndefined();
+    expect(negotiateEncoding(undefined)).toBeUndefined();
+  });
+});
+
+describe('compressResponse', () => {
+  it('should compress large compressible bodies and set Content-Encoding and Vary', () => {
+    const parts = compressResponse(jsonParts(largeJson, { vary: 'Origin', 'content-length': '1' }), 'gzip');
+
+    expect(parts.headers['content-encoding']).toBe('gzip');
+    expect(parts.headers['vary']).toBe('Origin, Accept-Encoding');
+    expect(parts.headers['content-length']).toBe(String(parts.body.length));
+    expect(gunzipSync(parts.body).toString()).toBe(largeJson);
+  });
+
+  it('should leave small bodies, non-compressible types and no-transform responses alone', () => {
+    const small = jsonParts('{"ok":true}');
+    const image = { ...jsonParts(largeJson), headers: { 'content-type': 'image/png' } };
+    const noTransform = jsonParts(largeJson, { 'cache-control': 'no-transform' });
+
+    expect(compressResponse(small, 'gzip')).toBe(small);
+    expect(compressResponse(image, 'gzip')).toBe(image);
+    expect(compressResponse(noTransform, 'gzip')).toBe(noTransform);
+  });
+
+  it('should pass already-encoded bodies through untouched', () => {
+    const encoded = jsonParts('', { 'content-encoding': 'gzip' });
+    encoded.body = gzipSync(largeJson);
+
+    expect(compressResponse(encoded, 'br')).toBe(encoded);
+  });
+
+  it('should respect the threshold, encodings and types options', () => {
+    const parts = compressResponse(
+      { ...jsonParts('x'.repeat(100)), headers: { 'content-type': 'application/octet-stream' } },
+      'br, deflate',
+      { threshold: 10, encodings: ['deflate'], types: ['application/octet-stream'] }
+    );
+
+    expect(parts.headers['content-encoding']).toBe('deflate');
+    expect(inflateSync(parts.body).toString()).toBe('x'.repeat(100));
+  });
+});
+
+describe('createHandler with compression', () => {
+  const app = (_req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(largeJson);
+  };
+
+  it('should return a base64-encoded compressed body', async () => {
+    const handler = createHandler(app, { compression: true });
+
+    const response = await invoke(handler, { headers: { 'accept-encoding': 'gzip, br' } }, { version: 'v1' });
+
+    expect(response.headers['content-encoding']).toBe('br');
+    expect(response.headers['vary']).toBe('Accept-Encoding');
+    expect(brotliDecompressSync(response.rawBody).toString()).toBe(largeJson);
+  });
+
+  it('should not compress when the option is off or the client does not accept it', async () => {
+    const off = await invoke(createHandler(app), { headers: { 'accept-encoding': 'gzip' } });
+    const notAccepted = await invoke(createHandler(app, { compression: true }), {});
+
+    expect(off.headers['content-encoding']).toBeUndefined();
+    expect(off.body).toBe(largeJson);
+    expect(notAccepted.headers['content-encoding']).toBeUndefined();
+    expect(notAccepted.body).toBe(largeJson);
+  });
+});
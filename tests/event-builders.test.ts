@@ -0,0 +1,161 @@
+/**
+ * Tests for the event builder API
+ */
+import {
+  apiGatewayV1EventSource,
+  apiGatewayV2EventSource,
+  buildALBEvent,
+  buildV1Event,
+  buildV2Event,
+  createHandler,
+  decodeResult,
+  findEventSource,
+  invoke,
+  isALBEvent,
+} from '../src/index';
+import { echo } from './fixtures/listeners';
+
+const echoHandler = createHandler(echo);
+
+describe('buildV1Event', () => {
+  it('should split the url into path and multi-value query parameters', () => {
+    const event = buildV1Event({ url: '/items?tag=a&tag=b&page=2' });
+
+    expect(event.httpMethod).toBe('GET');
+    expect(event.path).toBe('/items');
+    expect(event.queryStringParameters).toEqual({ tag: 'b', page: '2' });
+    expect(event.multiValueQueryStringParameters).toEqual({ tag: ['a', 'b'], page: ['2'] });
+    expect(findEventSource(event)).toBe(apiGatewayV1EventSource);
+  });
+
+  it('should build multi-value headers and fold cookies into the Cookie header', () => {
+    const event = buildV1Event({
+      headers: { Accept: ['text/html', 'application/json'] },
+      cookies: ['a=1', 'b=2'],
+    });
+
+    expect(event.headers).toEqual({ Accept: 'application/json', Cookie: 'a=1; b=2' });
+    expect(event.multiValueHeaders).toEqual({ Accept: ['text/html', 'application/json'], Cookie: ['a=1; b=2'] });
+  });
+
+  it('should fill request context defaults and overrides', () => {
+    const event = buildV1Event({ url: '/me', stage: 'dev', sourceIp: '10.0.0.1', authorizer: { principalId: 'user-1' } });
+
+    expect(event.requestContext.stage).toBe('dev');
+    expect(event.requestContext.path).toBe('/dev/me');
+    expect(event.requestContext.identity.sourceIp).toBe('10.0.0.1');
+    expect(event.requestContext.authorizer).toEqual({ principalId: 'user-1' });
+    expect(event.requestContext.requestId).toEqual(expect.any(String));
+  });
+
+  it('should base64-encode binary bodies', () => {
+    const event = buildV1Event({
+      method: 'post',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: Buffer.from([0xff, 0x00]),
+    });
+
+    expect(event.httpMethod).toBe('POST');
+    expect(event.isBase64Encoded).toBe(true);
+    expect(event.body).toBe(Buffer.from([0xff, 0x00]).toString('base64'));
+  });
+});
+
+describe('buildV2Event', () => {
+  it('should keep the raw query string and comma-join repeated parameters', () => {
+    const event = buildV2Event({ url: '/items?tag=a&tag=b' });
+
+    expect(event.rawPath).toBe('/items');
+    expect(event.rawQueryString).toBe('tag=a&tag=b');
+    expect(event.queryStringParameters).toEqual({ tag: 'a,b' });
+    expect(event.requestContext.stage).toBe('$default');
+    expect(findEventSource(event)).toBe(apiGatewayV2EventSource);
+  });
+
+  it('should move cookies into the cookies array and lower-case headers', () => {
+    const event = buildV2Event({ headers: { 'X-Test': 'yes', Cookie: 'c=3' }, cookies: ['a=1'] });
+
+    expect(event.headers).toEqual({ 'x-test': 'yes' });
+    expect(event.cookies).toEqual(['a=1', 'c=3']);
+  });
+
+  it('should keep text bodies as-is', () => {
+    const event = buildV2Event({ method: 'PUT', headers: { 'content-type': 'application/json' }, body: '{"a":1}' });
+
+    expect(event.requestContext.http.method).toBe('PUT');
+    expect(event.isBase64Encoded).toBe(false);
+    expect(event.body).toBe('{"a":1}');
+  });
+});
+
+describe('buildALBEvent', () => {
+  it('should build single-value events with URL-encoded query parameters', () => {
+    const event = buildALBEvent({ url: '/search?q=a%20b' });
+
+    expect(isALBEvent(event)).toBe(true);
+    expect(event.queryStringParameters).toEqual({ q: 'a%20b' });
+    expect(event.multiValueHeaders).toBeUndefined();
+  });
+
+  it('should build multi-value events when asked', () => {
+    const event = buildALBEvent({ url: '/?q=1&q=2', headers: { Accept: 'text/html' } }, { multiValueHeaders: true });
+
+    expect(event.multiValueQueryStringParameters).toEqual({ q: ['1', '2'] });
+    expect(event.multiValueHeaders).toEqual({ accept: ['text/html'] });
+    expect(event.headers).toBeUndefined();
+  });
+});
+
+describe('decodeResult', () => {
+  it('should decode base64 bodies and merge multi-value headers', () => {
+    const decoded = decodeResult({
+      statusCode: 201,
+      headers: { 'Content-Type': 'text/plain' },
+      multiValueHeaders: { Vary: ['accept', 'origin'], 'Set-Cookie': ['a=1'] },
+      body: Buffer.from('hello').toString('base64'),
+      isBase64Encoded: true,
+    });
+
+    expect(decoded.status).toBe(201);
+    expect(decoded.headers).toEqual({ 'content-type': 'text/plain', vary: 'accept, origin' });
+    expect(decoded.cookies).toEqual(['a=1']);
+    expect(decoded.body).toBe('hello');
+  });
+
+  it('should treat plain v2 return values as a JSON 200', () => {
+    const decoded = decodeResult({ ok: true } as any);
+
+    expect(decoded.status).toBe(200);
+    expect(decoded.body).toBe('{"ok":true}');
+  });
+});
+
+describe('invoke', () => {
+  for (const version of ['v1', 'v2', 'alb'] as const) {
+    it(`should round-trip a ${version} request through a handler`, async () => {
+      const response = await invoke(echoHandler, {
+        method: 'POST',
+        url: '/echo?x=1',
+        headers: { 'content-type': 'application/octet-stream' },
+        cookies: ['session=abc'],
+        body: Buffer.from([1, 2, 3]),
+      }, { version, multiValueHeaders: true });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/json');
+      expect(response.cookies).toEqual(['a=1; Path=/', 'b=2; HttpOnly']);
+      expect(JSON.parse(response.body)).toEqual({
+        method: 'POST',
+        url: '/echo?x=1',
+        cookie: 'session=abc',
+        body: Buffer.from([1, 2, 3]).toString('base64'),
+      });
+    });
+  }
+
+  it('should keep only the last cookie from single-value ALB results', async () => {
+    const response = await invoke(echoHandler, { url: '/' }, { version: 'alb' });
+
+    expect(response.cookies).toEqual(['b=2; HttpOnly']);
+  });
+});
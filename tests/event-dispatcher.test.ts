@@ -0,0 +1,175 @@
+/**
+ * Tests for dispatching SQS, SNS and EventBridge events to a request listener
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+import {
+  buildContext,
+  createEventHandler,
+  dispatchEvent,
+  eventRecordRequests,
+  isEventBridgeEvent,
+  isSNSEvent,
+  isSQSEvent,
+  type SNSEvent,
+  type SQSEvent,
+} from '../src/index';
+import { apiGatewayV2Event, eventBridgeEvent, snsEvent, sqsEvent, sqsFifoEvent } from './fixtures/events';
+
+interface Received {
+  method: string | undefined;
+  url: string | undefined;
+  source: string | string[] | undefined;
+  id: string | string[] | undefined;
+  body: any;
+}
+
+/**
+ * Listener that records each request and answers with the status in `failing`, or 204
+ */
+function recorder(failing: { [id: string]: number } = {}) {
+  const received: Received[] = [];
+  const app = (req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const id = req.headers['x-event-id'] as string;
+      received.push({
+        method: req.method,
+        url: req.url,
+        source: req.headers['x-event-source'],
+        id,
+        body: JSON.parse(Buffer.concat(chunks).toString()),
+      });
+      res.statusCode = failing[id] ?? 204;
+      res.end();
+    });
+  };
+  return { app, received };
+}
+
+describe('event type guards', () => {
+  it('should recognize each event source', () => {
+    expect(isSQSEvent(sqsEvent)).toBe(true);
+    expect(isSNSEvent(snsEvent)).toBe(true);
+    expect(isEventBridgeEvent(eventBridgeEvent)).toBe(true);
+    expect(isSQSEvent(snsEvent)).toBe(false);
+    expect(isSNSEvent(apiGatewayV2Event)).toBe(false);
+    expect(isEventBridgeEvent(apiGatewayV2Event)).toBe(false);
+  });
+});
+
+describe('eventRecordRequests', () => {
+  it('should honor a custom path prefix', () => {
+    const requests = eventRecordRequests(eventBridgeEvent, { eventPathPrefix: '/internal/' });
+
+    expect(requests?.[0].event.rawPath).toBe('/internal/eventbridge/com.example.orders/Order%20Placed');
+  });
+
+  it('should return no requests for an empty batch', () => {
+    expect(eventRecordRequests({ Records: [] } as SQSEvent)).toEqual([]);
+  });
+
+  it('should return undefined for other events', () => {
+    expect(eventRecordRequests(apiGatewayV2Event as any)).toBeUndefined();
+  });
+});
+
+describe('dispatchEvent', () => {
+  it('should post each SQS message to its queue path', async () => {
+    const { app, received } = recorder();
+
+    const result = await dispatchEvent(app, sqsEvent, buildContext());
+
+    expect(received.map((request) => [request.method, request.url, request.source, request.id])).toEqual([
+      ['POST', '/_events/sqs/orders', 'aws:sqs', 'msg-1'],
+      ['POST', '/_events/sqs/orders', 'aws:sqs', 'msg-2'],
+      ['POST', '/_events/sqs/orders', 'aws:sqs', 'msg-3'],
+    ]);
+    expect(received[0].body).toEqual(sqsEvent.Records[0]);
+    expect(result).toEqual({
+      records: [
+        { id: 'msg-1', source: 'sqs', status: 204 },
+        { id: 'msg-2', source: 'sqs', status: 204 },
+        { id: 'msg-3', source: 'sqs', status: 204 },
+      ],
+      batchItemFailures: [],
+    });
+  });
+
+  it('should report SQS messages answered with 5xx as batch item failures', async () => {
+    const { app } = recorder({ 'msg-1': 400, 'msg-2': 500 });
+
+    const result = await dispatchEvent(app, sqsEvent, buildContext());
+
+    expect(result.records.map((record) => record.status)).toEqual([400, 500, 204]);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'msg-2' }]);
+  });
+
+  it('should stop a FIFO batch at the first failure', async () => {
+    const { app, received } = recorder({ 'msg-2': 503 });
+
+    const result = await dispatchEvent(app, sqsFifoEvent, buildContext());
+
+    expect(received.map((request) => request.url)).toEqual(['/_events/sqs/orders.fifo', '/_events/sqs/orders.fifo']);
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'msg-2' }, { itemIdentifier: 'msg-3' }]);
+  });
+
+  it('should post SNS notifications to their topic path', async () => {
+    const { app, received } = recorder();
+
+    const result = await dispatchEvent(app, snsEvent, buildContext());
+
+    expect(received[0]).toMatchObject({ url: '/_events/sns/alerts', source: 'aws:sns', id: 'sns-1' });
+    expect(received[0].body.Sns.Message).toBe('disk full');
+    expect(result).toEqual({ records: [{ id: 'sns-1', source: 'sns', status: 204 }] });
+  });
+
+  it('should post EventBridge events to their source and detail type path', async () => {
+    const { app, received } = recorder();
+
+    await dispatchEvent(app, eventBridgeEvent, buildContext());
+
+    expect(received[0]).toMatchObject({ url: '/_events/eventbridge/com.example.orders/Order%20Placed', id: 'eb-1' });
+    expect(received[0].body.detail).toEqual({ orderId: 1 });
+  });
+
+  it('should dispatch nothing for an empty batch', async () => {
+    const { app, received } = recorder();
+
+    const result = await dispatchEvent(app, { Records: [] } as SNSEvent, buildContext());
+
+    expect(received).toEqual([]);
+    expect(result).toEqual({ records: [] });
+  });
+
+  it('should reject unsupported events', async () => {
+    const { app } = recorder();
+
+    await expect(dispatchEvent(app, apiGatewayV2Event as any, buildContext())).rejects.toThrow('Unsupported event source');
+  });
+});
+
+describe('createEventHandler', () => {
+  it('should return batchItemFailures for SQS', async () => {
+    const { app } = recorder({ 'msg-3': 500 });
+
+    const response = await createEventHandler(app)(sqsEvent, buildContext());
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: 'msg-3' }] });
+  });
+
+  it('should throw for failed SNS and EventBridge records so Lambda retries', async () => {
+    const { app } = recorder({ 'sns-1': 502 });
+    const handler = createEventHandler(app);
+
+    await expect(handler(snsEvent, buildContext())).rejects.toThrow('sns-1 (502)');
+    await expect(handler(eventBridgeEvent, buildContext())).resolves.toBeUndefined();
+  });
+
+  it('should succeed for an empty batch', async () => {
+    const { app } = recorder();
+
+    await expect(createEventHandler(app)({ Records: [] } as SQSEvent, buildContext())).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the event source registry
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+import {
+  albEventSource,
+  apiGatewayV1EventSource,
+  apiGatewayV2EventSource,
+  buildContext,
+  createRequestResponsePair,
+  errorResult,
+  type EventSource,
+  expressify,
+  fetchify,
+  findEventSource,
+  registerEventSource,
+} from '../src/index';
+import { albEvent, apiGatewayV1Event, apiGatewayV2Event, sqsEvent } from './fixtures/events';
+import { readBody } from './fixtures/listeners';
+
+/**
+ * Event format of a hypothetical on-prem gateway
+ */
+interface GatewayEvent {
+  gateway: 'on-prem';
+  verb: string;
+  target: string;
+  headerLines: string[];
+  payload?: string;
+  client: string;
+}
+
+interface GatewayResult {
+  code: number;
+  headerLines: string[];
+  payload: string;
+}
+
+const gatewaySource: EventSource<GatewayEvent, GatewayResult> = {
+  name: 'on-prem',
+  matches: (event: any): event is GatewayEvent => event?.gateway === 'on-prem',
+  toRequest: (event) => {
+    const [path, query = ''] = event.target.split('?');
+    return {
+      method: event.verb,
+      path,
+      query,
+      headers: event.headerLines.map((line) => {
+        const index = line.indexOf(':');
+        return [line.slice(0, index).trim(), line.slice(index + 1).trim()] as [string, string];
+      }),
+      body: event.payload === undefined ? undefined : Buffer.from(event.payload),
+      remoteAddress: event.client,
+    };
+  },
+  toResult: (parts) => ({
+    code: parts.statusCode || 200,
+    headerLines: [
+      ...Object.entries(parts.headers).map(([name, value]) => `${name}: ${value}`),
+      ...Object.entries(parts.multiValueHeaders).flatMap(([name, values]) => values.map((value) => `${name}: ${value}`)),
+    ],
+    payload: parts.body.toString('utf8'),
+  }),
+};
+
+const gatewayEvent: GatewayEvent = {
+  gateway: 'on-prem',
+  verb: 'POST',
+  target: '/orders?expand=items',
+  headerLines: ['Host: gateway.internal', 'Content-Type: text/plain', 'X-Tag: a', 'X-Tag: b'],
+  payload: 'hello',
+  client: '10.0.0.9',
+};
+
+describe('findEventSource', () => {
+  it('should find the built-in source of each event', () => {
+    expect(findEventSource(apiGatewayV1Event)).toBe(apiGatewayV1EventSource);
+    expect(findEventSource(apiGatewayV2Event)).toBe(apiGatewayV2EventSource);
+    expect(findEventSource(albEvent)).toBe(albEventSource);
+  });
+
+  it('should return undefined for events no source handles', () => {
+    expect(findEventSource(sqsEvent)).toBeUndefined();
+    expect(findEventSource(gatewayEvent)).toBeUndefined();
+    expect(findEventSource(null)).toBeUndefined();
+  });
+
+  it('should not build requests from events no source handles', () => {
+    expect(() => createRequestResponsePair(sqsEvent)).toThrow('Unsupported event source');
+  });
+});
+
+describe('registerEventSource', () => {
+  let unregister: (() => void) | undefined;
+
+  afterEach(() => {
+    unregister?.();
+    unregister = undefined;
+  });
+
+  it('should build requests from a custom event', async () => {
+    unregister = registerEventSource(gatewaySource);
+    const { request } = createRequestResponsePair(gatewayEvent);
+
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/orders?expand=items');
+    expect(request.headers['host']).toBe('gateway.internal');
+    expect(request.headers['x-tag']).toBe('a, b');
+    expect(request.headers['content-length']).toBe('5');
+    expect(request.socket.remoteAddress).toBe('10.0.0.9');
+    expect(request.eventSource).toBe(gatewaySource);
+    expect((await readBody(request)).toString()).toBe('hello');
+  });
+
+  it('should serialize responses with the custom source', async () => {
+    unregister = registerEventSource(gatewaySource);
+    const app = (req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('set-cookie', ['a=1', 'b=2']);
+      res.end(`${req.method} ${req.url}`);
+    };
+
+    const result = await expressify(app, gatewayEvent, buildContext());
+
+    expect(result).toMatchObject({
+      code: 200,
+      payload: 'POST /orders?expand=items',
+      headerLines: expect.arrayContaining(['set-cookie: a=1', 'set-cookie: b=2']),
+    });
+  });
+
+  it('should serve Fetch API handlers', async () => {
+    unregister = registerEventSource(gatewaySource);
+    const toRequest = jest.spyOn(gatewaySource, 'toRequest');
+    const result = await fetchify(async (request) => new Response(`${request.url} ${await request.text()}`), gatewayEvent, buildContext());
+
+    expect(result).toMatchObject({ payload: 'http://gateway.internal/orders?expand=items hello' });
+    expect(toRequest).toHaveBeenCalledTimes(1);
+    toRequest.mockRestore();
+  });
+
+  it('should shape error results for the custom source', () => {
+    unregister = registerEventSource(gatewaySource);
+
+    expect(errorResult(gatewayEvent, 502)).toEqual({
+      code: 502,
+      headerLines: ['content-type: application/json'],
+      payload: JSON.stringify({ message: 'Bad Gateway' }),
+    });
+  });
+
+  it('should try custom sources before the built-in ones', () => {
+    const override: EventSource = { ...apiGatewayV1EventSource, name: 'override' };
+    unregister = registerEventSource(override);
+
+    expect(findEventSource(apiGatewayV1Event)).toBe(override);
+    expect(findEventSource(apiGatewayV2Event)).toBe(apiGatewayV2EventSource);
+  });
+
+  it('should stop matching once unregistered', () => {
+    registerEventSource(gatewaySource)();
+
+    expect(findEventSource(gatewayEvent)).toBeUndefined();
+  });
+
+  it('should reject events no source handles', async () => {
+    const errors: string[] = [];
+    await expressify((_req: IncomingMessage, res: ServerResponse) => res.end(), gatewayEvent, buildContext(), {
+      errorHandler: async (error) => {
+        errors.push(error.message);
+        return { statusCode: 400, body: '' };
+      },
+    });
+
+    expect(errors).toEqual(['Unsupported event source']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for the Fetch API adapter
+ */
+import {
+  buildALBEvent,
+  buildV1Event,
+  buildV2Event,
+  createFetchHandler,
+  decodeResult,
+  fromFetchResponse,
+  toFetchRequest,
+} from '../src/index';
+
+function fakeContext(remaining: number): any {
+  return { getRemainingTimeInMillis: () => remaining };
+}
+
+describe('toFetchRequest', () => {
+  it('should build the url, method and headers from a v2 event', () => {
+    const event = buildV2Event({
+      url: '/items?tag=a&tag=b',
+      headers: { host: 'api.example.com', 'x-forwarded-proto': 'https', accept: 'text/html' },
+      cookies: ['a=1', 'b=2'],
+    });
+
+    const request = toFetchRequest(event);
+
+    expect(request.method).toBe('GET');
+    expect(request.url).toBe('https://api.example.com/items?tag=a&tag=b');
+    expect(request.headers.get('accept')).toBe('text/html');
+    expect(request.headers.get('cookie')).toBe('a=1; b=2');
+  });
+
+  it('should apply stripStage to the url', () => {
+    const event = buildV1Event({ url: '/prod/users', headers: { Host: 'example.com' } });
+
+    const request = toFetchRequest(event, { stripStage: true });
+
+    expect(new URL(request.url).pathname).toBe('/users');
+  });
+
+  it('should stream the decoded body', async () => {
+    const event = buildV1Event({
+      method: 'POST',
+      url: '/upload',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: Buffer.from([0, 1, 2, 255]),
+    });
+
+    const request = toFetchRequest(event);
+
+    expect(request.body).toBeInstanceOf(ReadableStream);
+    expect(Buffer.from(await request.arrayBuffer())).toEqual(Buffer.from([0, 1, 2, 255]));
+  });
+
+  it('should attach the given signal', () => {
+    const controller = new AbortController();
+    const request = toFetchRequest(buildV2Event(), { signal: controller.signal });
+
+    controller.abort();
+
+    expect(request.signal.aborted).toBe(true);
+  });
+});
+
+describe('fromFetchResponse', () => {
+  it('should move cookies into the v2 cookies array', async () => {
+    const headers = new Headers({ 'content-type': 'text/plain' });
+    headers.append('set-cookie', 'a=1');
+    headers.append('set-cookie', 'b=2');
+
+    const result = await fromFetchResponse(new Response('hello', { status: 201, headers }), buildV2Event());
+
+    expect(result).toEqual({
+      statusCode: 201,
+      headers: { 'content-type': 'text/plain' },
+      cookies: ['a=1', 'b=2'],
+      body: 'hello',
+      isBase64Encoded: false,
+    });
+  });
+
+  it('should use multi-value headers for repeated v1 cookies', async () => {
+    const headers = new Headers();
+    headers.append('set-cookie', 'a=1');
+    headers.append('set-cookie', 'b=2');
+
+    const result = await fromFetchResponse(new Response(null, { headers }), buildV1Event());
+
+    expect((result as any).multiValueHeaders).toEqual({ 'set-cookie': ['a=1', 'b=2'] });
+  });
+
+  it('should base64-encode binary bodies and configured binary media types', async () => {
+    const binary = await fromFetchResponse(new Response(new Uint8Array([0xff, 0xfe])), buildV2Event());
+    const configured = await fromFetchResponse(
+      new Response('{}', { headers: { 'content-type': 'application/json' } }),
+      buildV2Event(),
+      { binaryMediaTypes: ['application/json'] }
+    );
+
+    expect(binary).toMatchObject({ isBase64Encoded: true, body: Buffer.from([0xff, 0xfe]).toString('base64') });
+    expect(configured).toMatchObject({ isBase64Encoded: true, body: Buffer.from('{}').toString('base64') });
+  });
+
+  it('should build ALB results with a status description', async () => {
+    const result = await fromFetchResponse(new Response('gone', { status: 410 }), buildALBEvent());
+
+    expect(result).toMatchObject({ statusCode: 410, statusDescription: '410 Gone' });
+  });
+});
+
+describe('createFetchHandler', () => {
+  it('should round-trip a request through a fetch handler', async () => {
+    const handler = createFetchHandler(async (request) => {
+      const body = await request.text();
+      return Response.json({ method: request.method, path: new URL(request.url).pathname, body });
+    });
+
+    const result = await handler(buildV2Event({ method: 'POST', url: '/echo', body: 'hi' }), fakeContext(30000));
+    const decoded = decodeResult(result);
+
+    expect(decoded.status).toBe(200);
+    expect(JSON.parse(decoded.body)).toEqual({ method: 'POST', path: '/echo', body: 'hi' });
+  });
+
+  it('should return a 500 result when the handler throws', async () => {
+    const handler = createFetchHandler(() => {
+      throw new Error('boom');
+    });
+
+    const result = await handler(buildV2Event(), fakeContext(30000));
+
+    expect((result as any).statusCode).toBe(500);
+  });
+
+  it('should abort the request signal and return 504 at the deadline', async () => {
+    let signal: AbortSignal | undefined;
+    const handler = createFetchHandler((request) => {
+      signal = request.signal;
+      return new Promise<Response>(() => {});
+    }, { timeout: 20 });
+
+    const result = await handler(buildV2Event(), fakeContext(30000));
+
+    expect((result as any).statusCode).toBe(504);
+    expect(signal?.aborted).toBe(true);
+  });
+});
@@ -2,7 +2,7 @@
  * Test fixtures for API Gateway events
  */
 
-import { APIGatewayProxyEvent, APIGatewayProxyEventV2 } from 'aws-lambda';
+import { ALBEvent, APIGatewayProxyEvent, APIGatewayProxyEventV2, APIGatewayProxyWebsocketEventV2, CloudFrontRequestEvent, EventBridgeEvent, SNSEvent, SQSEvent, SQSRecord } from 'aws-lambda';
 
 export const apiGatewayV1Event: APIGatewayProxyEvent = {
   resource: '/hello',
@@ -139,4 +139,196 @@ export const apiGatewayV2EventWithBody: APIGatewayProxyEventV2 = {
     ...apiGatewayV2Event.headers,
     'content-length': "36",
   }
-}; 
\ No newline at end of file
+};
+
+export const albEvent: ALBEvent = {
+  requestContext: {
+    elb: {
+      targetGroupArn: 'arn:aws:elasticloadbalancing:us-east-1:123456789012:targetgroup/lambda-target/abc123'
+    }
+  },
+  httpMethod: 'GET',
+  path: '/hello',
+  queryStringParameters: {
+    name: 'hello%20world',
+    id: '123'
+  },
+  headers: {
+    'accept': 'application/json',
+    'host': 'api.example.com',
+    'user-agent': 'Mozilla/5.0',
+    'x-amzn-trace-id': 'Root=1-5e1b4151-5ac6c58f3375aa3c7c6b88c9',
+    'x-forwarded-for': '192.168.1.1',
+    'x-forwarded-port': '443',
+    'x-forwarded-proto': 'https'
+  },
+  body: '',
+  isBase64Encoded: false
+};
+
+export const albMultiValueEvent: ALBEvent = {
+  requestContext: albEvent.requestContext,
+  httpMethod: 'GET',
+  path: '/hello',
+  multiValueQueryStringParameters: {
+    tag: ['a', 'b%26c'],
+    id: ['123']
+  },
+  multiValueHeaders: {
+    'accept': ['application/json', 'text/plain'],
+    'host': ['api.example.com'],
+    'user-agent': ['Mozilla/5.0'],
+    'x-forwarded-for': ['192.168.1.1'],
+    'x-forwarded-port': ['443'],
+    'x-forwarded-proto': ['https']
+  },
+  body: '',
+  isBase64Encoded: false
+};
+
+function sqsRecord(messageId: string, body: string, queue: string = 'orders'): SQSRecord {
+  return {
+    messageId,
+    receiptHandle: `receipt-${messageId}`,
+    body,
+    attributes: {
+      ApproximateReceiveCount: '1',
+      SentTimestamp: '1523232000000',
+      SenderId: '123456789012',
+      ApproximateFirstReceiveTimestamp: '1523232000001'
+    },
+    messageAttributes: {},
+    md5OfBody: '',
+    eventSource: 'aws:sqs',
+    eventSourceARN: `arn:aws:sqs:us-east-1:123456789012:${queue}`,
+    awsRegion: 'us-east-1'
+  };
+}
+
+export const sqsEvent: SQSEvent = {
+  Records: [
+    sqsRecord('msg-1', '{"orderId":1}'),
+    sqsRecord('msg-2', '{"orderId":2}'),
+    sqsRecord('msg-3', '{"orderId":3}')
+  ]
+};
+
+export const sqsFifoEvent: SQSEvent = {
+  Records: sqsEvent.Records.map((record) => sqsRecord(record.messageId, record.body, 'orders.fifo'))
+};
+
+export const snsEvent: SNSEvent = {
+  Records: [{
+    EventVersion: '1.0',
+    EventSubscriptionArn: 'arn:aws:sns:us-east-1:123456789012:alerts:2bcfbf39-05c3-41de-beaa-fcfcc21c8f55',
+    EventSource: 'aws:sns',
+    Sns: {
+      SignatureVersion: '1',
+      Timestamp: '2024-01-01T00:00:00.000Z',
+      Signature: 'EXAMPLE',
+      SigningCertUrl: 'EXAMPLE',
+      MessageId: 'sns-1',
+      Message: 'disk full',
+      MessageAttributes: {},
+      Type: 'Notification',
+      UnsubscribeUrl: 'EXAMPLE',
+      TopicArn: 'arn:aws:sns:us-east-1:123456789012:alerts',
+      Subject: 'Alert'
+    }
+  }]
+};
+
+export const eventBridgeEvent: EventBridgeEvent<string, unknown> = {
+  version: '0',
+  id: 'eb-1',
+  'detail-type': 'Order Placed',
+  source: 'com.example.orders',
+  account: '123456789012',
+  time: '2024-01-01T00:00:00Z',
+  region: 'us-east-1',
+  resources: [],
+  detail: { orderId: 1 }
+};
+
+const webSocketRequestContext = {
+  routeKey: '$default',
+  messageId: 'msg-abc=',
+  eventType: 'MESSAGE' as const,
+  extendedRequestId: 'ext-1',
+  requestTime: '01/Jan/2024:00:00:00 +0000',
+  messageDirection: 'IN' as const,
+  stage: 'prod',
+  connectedAt: 1704067200000,
+  requestTimeEpoch: 1704067201000,
+  requestId: 'ws-request-1',
+  domainName: 'ws.example.com',
+  connectionId: 'conn-1=',
+  apiId: 'wsapi123',
+  identity: { sourceIp: '198.51.100.7' }
+};
+
+export const webSocketConnectEvent: APIGatewayProxyWebsocketEventV2 & { headers: { [name: string]: string } } = {
+  requestContext: {
+    ...webSocketRequestContext,
+    routeKey: '$connect',
+    messageId: undefined as unknown as string,
+    eventType: 'CONNECT'
+  },
+  headers: {
+    'Host': 'ws.example.com',
+    'Sec-WebSocket-Protocol': 'chat'
+  },
+  queryStringParameters: { token: 'abc' },
+  isBase64Encoded: false
+};
+
+export const webSocketMessageEvent: APIGatewayProxyWebsocketEventV2 = {
+  requestContext: webSocketRequestContext,
+  body: '{"action":"ping"}',
+  isBase64Encoded: false
+};
+
+export const cloudFrontOriginRequestEvent: CloudFrontRequestEvent = {
+  Records: [
+    {
+      cf: {
+        config: {
+          distributionDomainName: 'd111111abcdef8.cloudfront.net',
+          distributionId: 'EDFDVBD6EXAMPLE',
+          eventType: 'origin-request',
+          requestId: '4TyzHTaYWb1GX1qTfsHhEqV6HUDd_BzoBZnwfnvQc_1oF26ClkoUSEQ=='
+        },
+        request: {
+          clientIp: '203.0.113.178',
+          method: 'POST',
+          uri: '/api/orders',
+          querystring: 'expand=items&tag=a&tag=b',
+          headers: {
+            'host': [{ key: 'Host', value: 'origin.example.com' }],
+            'content-type': [{ key: 'Content-Type', value: 'application/json' }],
+            'cookie': [{ key: 'Cookie', value: 'session=abc' }, { key: 'Cookie', value: 'theme=dark' }],
+            'cloudfront-forwarded-proto': [{ key: 'CloudFront-Forwarded-Proto', value: 'https' }]
+          },
+          body: {
+            action: 'read-only',
+            data: Buffer.from('{"item":1}').toString('base64'),
+            encoding: 'base64',
+            inputTruncated: false
+          },
+          origin: {
+            custom: {
+              customHeaders: {},
+              domainName: 'origin.example.com',
+              keepaliveTimeout: 5,
+              path: '',
+              port: 443,
+              protocol: 'https',
+              readTimeout: 30,
+              sslProtocols: ['TLSv1.2']
+            }
+          }
+        }
+      }
+    }
+  ]
+};
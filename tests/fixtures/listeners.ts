@@ -0,0 +1,35 @@
+/**
+ * Test fixtures for request listeners and request bodies
+ */
+
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+/**
+ * Request listener answering with a JSON description of the request (body
+ * base64-encoded) and two cookies
+ */
+export function echo(req: IncomingMessage, res: ServerResponse): void {
+  readBody(req).then((body) => {
+    res.setHeader('content-type', 'application/json');
+    res.setHeader('set-cookie', ['a=1; Path=/', 'b=2; HttpOnly']);
+    res.end(JSON.stringify({
+      method: req.method,
+      url: req.url,
+      accept: req.headers['accept'],
+      cookie: req.headers['cookie'],
+      body: body.toString('base64')
+    }));
+  });
+}
+
+/**
+ * Read a request body to the end
+ */
+export function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
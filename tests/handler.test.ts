@@ -0,0 +1,183 @@
+/**
+ * Tests for the Lambda handler factory
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type Context } from 'aws-lambda';
+
+import { createHandler, createHandlerWithOptions, expressify, LambdaIncomingMessage } from '../src/index';
+import { albEvent, apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
+
+const context = { awsRequestId: 'test-aws-request-id' } as Context;
+
+describe('createHandler', () => {
+  it('should dispatch v1 events to a plain request listener', async () => {
+    const handler = createHandler((req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = 201;
+      res.setHeader('x-method', req.method!);
+      res.setHeader('x-url', req.url!);
+      res.end();
+    });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toMatchObject({
+      statusCode: 201,
+      headers: { 'x-method': 'GET', 'x-url': '/hello?name=test&id=123' },
+    });
+  });
+
+  it('should dispatch v2 events to a plain request listener', async () => {
+    const handler = createHandler((req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('x-url', req.url!);
+      res.end('hello');
+    });
+
+    const result = await handler(apiGatewayV2Event, context);
+    expect(result).toMatchObject({
+      statusCode: 200,
+      headers: { 'x-url': '/hello?name=test&id=123' },
+      body: 'hello',
+    });
+  });
+
+  it('should attach the Lambda context to the request', async () => {
+    const handler = createHandler((req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('x-request-id', (req as LambdaIncomingMessage).awsRequestId!);
+      res.end();
+    });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toMatchObject({ headers: { 'x-request-id': 'test-aws-request-id' } });
+  });
+
+  it('should return ALB results for ALB events', async () => {
+    const handler = createHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.end('hello');
+    });
+
+    const result = await handler(albEvent, context);
+    expect(result).toMatchObject({ statusCode: 200, statusDescription: '200 OK', body: 'hello' });
+  });
+
+  it('should shape error results for ALB events', async () => {
+    const handler = createHandler(() => {
+      throw new Error('boom');
+    });
+
+    const result = await handler(albEvent, context);
+    expect(result).toMatchObject({ statusCode: 500, statusDescription: '500 Internal Server Error' });
+  });
+
+  it('should return a 500 result when the listener throws', async () => {
+    const handler = createHandler(() => {
+      throw new Error('boom');
+    });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toMatchObject({ statusCode: 500 });
+  });
+
+  it('should return a 500 result when the listener rejects', async () => {
+    const handler = createHandler(async () => {
+      throw new Error('boom');
+    });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toMatchObject({ statusCode: 500 });
+  });
+
+  it('should return a 500 result for invalid events', async () => {
+    const handler = createHandler((_req: IncomingMessage, res: ServerResponse) => res.end());
+
+    const result = await handler({} as any, context);
+    expect(result).toMatchObject({ statusCode: 500 });
+  });
+});
+
+describe('createHandlerWithOptions', () => {
+  it('should pass errors to the custom error handler', async () => {
+    const errorHandler = jest.fn(async (error: Error) => ({
+      statusCode: 418,
+      body: error.message,
+    }));
+    const handler = createHandlerWithOptions(() => {
+      throw new Error('boom');
+    }, { errorHandler });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toEqual({ statusCode: 418, body: 'boom' });
+    expect(errorHandler).toHaveBeenCalledWith(expect.any(Error), apiGatewayV1Event, context);
+  });
+});
+
+describe('timeouts', () => {
+  it('should return a 504 result when the timeout is reached', async () => {
+    const handler = createHandler(() => {
+      // Never responds
+    }, { timeout: 20 });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toMatchObject({ statusCode: 504 });
+    expect(JSON.parse((result as any).body)).toEqual({ message: 'Gateway Timeout' });
+  });
+
+  it('should derive the deadline from the remaining invocation time', async () => {
+    const lambdaContext = { ...context, getRemainingTimeInMillis: () => 530 } as Context;
+    const handler = createHandler(() => {
+      // Never responds
+    }, { timeoutMargin: 500 });
+
+    const started = Date.now();
+    const result = await handler(apiGatewayV2Event, lambdaContext);
+    expect(result).toMatchObject({ statusCode: 504 });
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it('should return a custom timeout result', async () => {
+    const handler = createHandler(() => {
+      // Never responds
+    }, {
+      timeout: 20,
+      timeoutResult: () => ({ statusCode: 503, body: 'try again' })
+    });
+
+    expect(await handler(apiGatewayV1Event, context)).toEqual({ statusCode: 503, body: 'try again' });
+  });
+
+  it('should abort the request and discard later writes', async () => {
+    const events: string[] = [];
+    let late: ServerResponse | undefined;
+    const handler = createHandler((req: IncomingMessage, res: ServerResponse) => {
+      req.setTimeout(60000, () => events.push('timeout callback'));
+      req.on('aborted', () => events.push('aborted'));
+      req.on('close', () => events.push('close'));
+      late = res;
+    }, { timeout: 20 });
+
+    const result = await handler(apiGatewayV1Event, context);
+    expect(result).toMatchObject({ statusCode: 504 });
+    expect(events).toEqual(['timeout callback', 'aborted', 'close']);
+
+    late!.end('too late');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect((late as any).lambdaResponse().body).toBe('');
+  });
+
+  it('should not time out responses that finish in time', async () => {
+    const handler = createHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.end('done');
+    }, { timeout: 1000 });
+
+    expect(await handler(apiGatewayV1Event, context)).toMatchObject({ statusCode: 200, body: 'done' });
+  });
+});
+
+describe('expressify', () => {
+  it('should process a single event through the listener', async () => {
+    const result = await expressify((_req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = 204;
+      res.end();
+    }, apiGatewayV1Event, context);
+
+    expect(result).toMatchObject({ statusCode: 204 });
+  });
+});
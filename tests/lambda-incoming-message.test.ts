@@ -0,0 +1,304 @@
+/**
+ * Tests for LambdaIncomingMessage
+ */
+import { LambdaIncomingMessage } from '../src/lambda-incoming-message';
+import {
+  albEvent,
+  albMultiValueEvent,
+  apiGatewayV1Event,
+  apiGatewayV1EventWithBody,
+  apiGatewayV2Event,
+  apiGatewayV2EventWithBody
+} from './fixtures/events';
+import { readBody } from './fixtures/listeners';
+
+const binary = Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0xff, 0xfe, 0x00, 0x7f, 0xc3, 0xa9]);
+
+describe('LambdaIncomingMessage', () => {
+  describe('body', () => {
+    it('should emit plain text bodies as UTF-8 bytes', async () => {
+      const request = new LambdaIncomingMessage({ ...apiGatewayV2EventWithBody, body: 'héllo' });
+
+      const body = await readBody(request);
+      expect(body.toString('utf8')).toBe('héllo');
+      expect(request.bytesRead).toBe(6);
+      expect(request.headers['content-length']).toBe('6');
+    });
+
+    it('should decode base64 bodies from v1 events', async () => {
+      const request = new LambdaIncomingMessage({
+        ...apiGatewayV1EventWithBody,
+        body: binary.toString('base64'),
+        isBase64Encoded: true
+      });
+
+      const body = await readBody(request);
+      expect(body.equals(binary)).toBe(true);
+      expect(request.bytesRead).toBe(binary.length);
+      expect(request.headers['content-length']).toBe(String(binary.length));
+      expect(request.headersDistinct['content-length']).toEqual([String(binary.length)]);
+      expect(request.rawHeaders).toContain('Content-Length');
+      expect(request.rawHeaders[request.rawHeaders.indexOf('Content-Length') + 1]).toBe(String(binary.length));
+    });
+
+    it('should decode base64 bodies from v2 events', async () => {
+      const request = new LambdaIncomingMessage({
+        ...apiGatewayV2EventWithBody,
+        body: binary.toString('base64'),
+        isBase64Encoded: true
+      });
+
+      const body = await readBody(request);
+      expect(body.equals(binary)).toBe(true);
+      expect(request.bytesRead).toBe(binary.length);
+      expect(request.headers['content-length']).toBe(String(binary.length));
+    });
+
+    it('should not report a content length without a body', async () => {
+      const request = new LambdaIncomingMessage(apiGatewayV1Event);
+
+      const body = await readBody(request);
+      expect(body.length).toBe(0);
+      expect(request.headers['content-length']).toBeUndefined();
+    });
+  });
+});
+
+describe('LambdaIncomingMessage multi-value v1 events', () => {
+  const event = {
+    ...apiGatewayV1Event,
+    headers: {
+      ...apiGatewayV1Event.headers,
+      'Accept': 'application/xml',
+      'Forwarded': 'for=10.0.0.2'
+    },
+    multiValueHeaders: {
+      ...apiGatewayV1Event.multiValueHeaders,
+      'Accept': ['application/json', 'application/xml'],
+      'Forwarded': ['for=10.0.0.1', 'for=10.0.0.2'],
+      'User-Agent': ['Mozilla/5.0', 'curl/8.0'],
+      'Cookie': ['a=1', 'b=2']
+    },
+    queryStringParameters: { tag: 'b', id: '123' },
+    multiValueQueryStringParameters: { tag: ['a', 'b'], id: ['123'] }
+  };
+
+  it('should keep repeated query string keys in the url', () => {
+    const request = new LambdaIncomingMessage(event);
+    expect(request.url).toBe('/hello?tag=a&tag=b&id=123');
+  });
+
+  it('should join repeated headers like IncomingMessage', () => {
+    const request = new LambdaIncomingMessage(event);
+    expect(request.headers['accept']).toBe('application/json, application/xml');
+    expect(request.headers['forwarded']).toBe('for=10.0.0.1, for=10.0.0.2');
+    expect(request.headers['user-agent']).toBe('Mozilla/5.0');
+    expect(request.headers['cookie']).toBe('a=1; b=2');
+    expect(request.headers['host']).toBe('api.example.com');
+  });
+
+  it('should keep every value in headersDistinct', () => {
+    const request = new LambdaIncomingMessage(event);
+    expect(request.headersDistinct['accept']).toEqual(['application/json', 'application/xml']);
+    expect(request.headersDistinct['user-agent']).toEqual(['Mozilla/5.0', 'curl/8.0']);
+    expect(request.headersDistinct['host']).toEqual(['api.example.com']);
+  });
+
+  it('should list one rawHeaders pair per value', () => {
+    const request = new LambdaIncomingMessage(event);
+    const forwarded = request.rawHeaders.filter((_value, i, raw) => i % 2 === 1 && raw[i - 1] === 'Forwarded');
+    expect(forwarded).toEqual(['for=10.0.0.1', 'for=10.0.0.2']);
+  });
+});
+
+describe('LambdaIncomingMessage v2 cookies', () => {
+  const event = {
+    ...apiGatewayV2Event,
+    cookies: ['sessionId=abc123', 'theme=dark']
+  };
+
+  it('should expose the cookies array as a cookie header', () => {
+    const request = new LambdaIncomingMessage(event);
+    expect(request.headers['cookie']).toBe('sessionId=abc123; theme=dark');
+    expect(request.headersDistinct['cookie']).toEqual(['sessionId=abc123; theme=dark']);
+    expect(request.rawHeaders.slice(-2)).toEqual(['cookie', 'sessionId=abc123; theme=dark']);
+  });
+
+  it('should prefer the cookies array over a cookie header', () => {
+    const request = new LambdaIncomingMessage({
+      ...event,
+      headers: { ...event.headers, cookie: 'stale=1' }
+    });
+    expect(request.headers['cookie']).toBe('sessionId=abc123; theme=dark');
+  });
+
+  it('should omit the cookie header when there are no cookies', () => {
+    const request = new LambdaIncomingMessage({ ...apiGatewayV2Event, cookies: undefined });
+    expect(request.headers['cookie']).toBeUndefined();
+  });
+});
+
+describe('LambdaIncomingMessage v2 query strings', () => {
+  it('should keep repeated keys apart using rawQueryString', () => {
+    const request = new LambdaIncomingMessage({
+      ...apiGatewayV2Event,
+      rawQueryString: 'tag=a&tag=b',
+      queryStringParameters: { tag: 'a,b' }
+    });
+    expect(request.url).toBe('/hello?tag=a&tag=b');
+  });
+
+  it('should not fall back to queryStringParameters for an empty rawQueryString', () => {
+    const request = new LambdaIncomingMessage({
+      ...apiGatewayV2Event,
+      rawQueryString: '',
+      queryStringParameters: { name: 'test' }
+    });
+    expect(request.url).toBe('/hello');
+  });
+
+  it('should build the query from queryStringParameters without rawQueryString', () => {
+    const request = new LambdaIncomingMessage({
+      ...apiGatewayV2Event,
+      rawQueryString: undefined as unknown as string,
+      queryStringParameters: { name: 'test' }
+    });
+    expect(request.url).toBe('/hello?name=test');
+  });
+});
+
+describe('LambdaIncomingMessage ALB events', () => {
+  it('should decode URL-encoded query parameters', () => {
+    const request = new LambdaIncomingMessage(albEvent);
+    expect(request.method).toBe('GET');
+    expect(request.url).toBe('/hello?name=hello+world&id=123');
+  });
+
+  it('should read multi-value headers and query parameters', () => {
+    const request = new LambdaIncomingMessage(albMultiValueEvent);
+    expect(request.url).toBe('/hello?tag=a&tag=b%26c&id=123');
+    expect(request.headers['accept']).toBe('application/json, text/plain');
+    expect(request.headers['host']).toBe('api.example.com');
+  });
+});
+
+describe('LambdaIncomingMessage socket', () => {
+  it('should take the remote address and TLS flag from a v1 event', () => {
+    const request = new LambdaIncomingMessage({
+      ...apiGatewayV1Event,
+      headers: { ...apiGatewayV1Event.headers, 'X-Forwarded-Port': '8443' },
+      requestContext: {
+        ...apiGatewayV1Event.requestContext,
+        identity: { ...apiGatewayV1Event.requestContext.identity, sourceIp: '203.0.113.7' }
+      }
+    });
+    expect(request.socket.remoteAddress).toBe('203.0.113.7');
+    expect(request.socket.remoteFamily).toBe('IPv4');
+    expect((request.socket as any).encrypted).toBe(true);
+    expect(request.socket.localPort).toBe(8443);
+  });
+
+  it('should take the remote address from a v2 event', () => {
+    const request = new LambdaIncomingMessage({
+      ...apiGatewayV2Event,
+      headers: { ...apiGatewayV2Event.headers, 'x-forwarded-proto': 'http' },
+      requestContext: {
+        ...apiGatewayV2Event.requestContext,
+        http: { ...apiGatewayV2Event.requestContext.http, sourceIp: '2001:db8::1' }
+      }
+    });
+    expect(request.socket.remoteAddress).toBe('2001:db8::1');
+    expect(request.socket.remoteFamily).toBe('IPv6');
+    expect((request.socket as any).encrypted).toBe(false);
+    expect(request.socket.localPort).toBe(80);
+  });
+
+  it('should fall back to X-Forwarded-For for ALB events', () => {
+    const request = new LambdaIncomingMessage(albMultiValueEvent);
+    expect(request.socket.remoteAddress).toBe('192.168.1.1');
+    expect((request.socket as any).encrypted).toBe(true);
+    expect(request.socket.localPort).toBe(443);
+  });
+});
+
+describe('LambdaIncomingMessage invocation metadata', () => {
+  const context = {
+    awsRequestId: 'aws-request-id',
+    functionName: 'my-function',
+    getRemainingTimeInMillis: () => 1234
+  } as any;
+
+  it('should expose the Lambda context', () => {
+    const request = new LambdaIncomingMessage(apiGatewayV1Event, context);
+    expect(request.lambdaContext).toBe(context);
+    expect(request.awsRequestId).toBe('aws-request-id');
+    expect(request.functionName).toBe('my-function');
+    expect(request.getRemainingTimeInMillis()).toBe(1234);
+  });
+
+  it('should expose v1 API Gateway metadata', () => {
+    const request = new LambdaIncomingMessage(apiGatewayV1Event);
+    expect(request.apiGatewayRequestId).toBe('test-request-id');
+    expect(request.stage).toBe('prod');
+    expect(request.routeKey).toBe('GET /hello');
+  });
+
+  it('should expose v2 API Gateway metadata', () => {
+    const request = new LambdaIncomingMessage(apiGatewayV2Event);
+    expect(request.apiGatewayRequestId).toBe('test-request-id');
+    expect(request.stage).toBe('prod');
+    expect(request.routeKey).toBe('GET /hello');
+  });
+
+  it('should leave metadata undefined when it is not available', () => {
+    const request = new LambdaIncomingMessage(albEvent);
+    expect(request.lambdaContext).toBeUndefined();
+    expect(request.awsRequestId).toBeUndefined();
+    expect(request.getRemainingTimeInMillis()).toBeUndefined();
+    expect(request.apiGatewayRequestId).toBeUndefined();
+    expect(request.stage).toBeUndefined();
+  });
+});
+
+describe('LambdaIncomingMessage path rewriting', () => {
+  const stagedEvent = { ...apiGatewayV1Event, path: '/prod/users', queryStringParameters: null, multiValueQueryStringParameters: null };
+
+  it('should keep the path verbatim by default', () => {
+    const request = new LambdaIncomingMessage(stagedEvent);
+    expect(request.url).toBe('/prod/users');
+    expect(request.originalLambdaPath).toBe('/prod/users');
+  });
+
+  it('should strip the stage prefix', () => {
+    const request = new LambdaIncomingMessage(stagedEvent, undefined, { stripStage: true });
+    expect(request.url).toBe('/users');
+    expect(request.originalLambdaPath).toBe('/prod/users');
+  });
+
+  it('should leave paths without the stage prefix alone', () => {
+    const request = new LambdaIncomingMessage({ ...stagedEvent, path: '/production/users' }, undefined, { stripStage: true });
+    expect(request.url).toBe('/production/users');
+  });
+
+  it('should not strip the $default stage', () => {
+    const event = {
+      ...apiGatewayV2Event,
+      rawPath: '/$default/users',
+      requestContext: { ...apiGatewayV2Event.requestContext, stage: '$default' }
+    };
+    const request = new LambdaIncomingMessage(event, undefined, { stripStage: true });
+    expect(request.url).toBe('/$default/users?name=test&id=123');
+  });
+
+  it('should strip a custom domain base path and keep the query string', () => {
+    const event = { ...apiGatewayV2Event, rawPath: '/api/v1/users' };
+    const request = new LambdaIncomingMessage(event, undefined, { basePath: '/api/v1/' });
+    expect(request.url).toBe('/users?name=test&id=123');
+    expect(request.originalLambdaPath).toBe('/api/v1/users');
+  });
+
+  it('should map the base path itself to the root', () => {
+    const request = new LambdaIncomingMessage({ ...stagedEvent, path: '/prod/api' }, undefined, { stripStage: true, basePath: 'api' });
+    expect(request.url).toBe('/');
+  });
+});
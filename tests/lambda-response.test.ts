@@ -0,0 +1,306 @@
+/**
+ * Tests for LambdaResponse
+ */
+import { createRequestResponsePair } from '../src/index';
+import { type LambdaResponseOptions, enforcePayloadLimit } from '../src/lambda-response';
+import { LambdaResponse } from '../src/lambda-response';
+import { albEvent, albMultiValueEvent, apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
+
+function finished(response: LambdaResponse): Promise<void> {
+  return new Promise((resolve) => response.on('finish', () => resolve()));
+}
+
+describe('LambdaResponse', () => {
+  describe('headers', () => {
+    it('should return repeated v1 headers in multiValueHeaders', async () => {
+      const { response } = createRequestResponsePair(apiGatewayV1Event);
+      response.setHeader('content-type', 'text/plain');
+      response.setHeader('set-cookie', ['a=1; Path=/; HttpOnly', 'b=2; Secure']);
+      response.end();
+      await finished(response);
+
+      const result = response.lambdaResponse();
+      expect(result.headers).toEqual({ 'content-type': 'text/plain' });
+      expect(result.multiValueHeaders).toEqual({
+        'set-cookie': ['a=1; Path=/; HttpOnly', 'b=2; Secure']
+      });
+    });
+
+    it('should omit multiValueHeaders when no header repeats', async () => {
+      const { response } = createRequestResponsePair(apiGatewayV1Event);
+      response.setHeader('content-type', 'text/plain');
+      response.end();
+      await finished(response);
+
+      expect(response.lambdaResponse().multiValueHeaders).toBeUndefined();
+    });
+
+    it('should keep v2 cookie attributes intact', async () => {
+      const { response } = createRequestResponsePair(apiGatewayV2Event);
+      response.setHeader('set-cookie', ['a=1; Path=/; HttpOnly', 'b=2; Secure']);
+      response.setHeader('vary', ['Accept', 'Origin']);
+      response.end();
+      await finished(response);
+
+      const result = response.lambdaResponseV2();
+      expect(result).toMatchObject({
+        cookies: ['a=1; Path=/; HttpOnly', 'b=2; Secure'],
+        headers: { vary: 'Accept,Origin' }
+      });
+      expect((result as any).headers['set-cookie']).toBeUndefined();
+    });
+
+    it('should move a single v2 cookie to cookies', async () => {
+      const { response } = createRequestResponsePair(apiGatewayV2Event);
+      response.setHeader('set-cookie', 'a=1; Path=/; HttpOnly');
+      response.end();
+      await finished(response);
+
+      expect(response.lambdaResponseV2()).toMatchObject({ cookies: ['a=1; Path=/; HttpOnly'] });
+    });
+  });
+});
+
+describe('LambdaResponse body', () => {
+  it('should capture only the payload of a single end()', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV1Event);
+    response.setHeader('content-type', 'text/plain');
+    response.end('hello');
+    await finished(response);
+
+    expect(response.lambdaResponse()).toMatchObject({ body: 'hello', isBase64Encoded: false });
+  });
+
+  it('should not capture the status line of writeContinue()', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV1Event);
+    const callback = jest.fn();
+    response.writeContinue(callback);
+    response.end('body');
+    await finished(response);
+
+    expect(response.lambdaResponse().body).toBe('body');
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it('should not capture the status line of writeProcessing()', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV1Event);
+    response.writeProcessing();
+    response.end('body');
+    await finished(response);
+
+    expect(response.lambdaResponse().body).toBe('body');
+  });
+
+  it('should not capture early hints', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV2Event);
+    const callback = jest.fn();
+    response.writeEarlyHints({ link: '</a.css>; rel=preload' }, callback);
+    response.end('body');
+    await finished(response);
+
+    expect(response.lambdaResponseV2()).toMatchObject({ body: 'body' });
+    expect(response.getHeader('link')).toBeUndefined();
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it('should not add chunk framing to streamed writes', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV2Event);
+    response.write('hello, ');
+    response.write(Buffer.from('streaming '));
+    response.end('world');
+    await finished(response);
+
+    expect(response.lambdaResponseV2()).toMatchObject({ body: 'hello, streaming world' });
+  });
+
+  it('should drop transfer-encoding headers set by the app', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV1Event);
+    response.setHeader('transfer-encoding', 'chunked');
+    response.write('a');
+    response.end('b');
+    await finished(response);
+
+    const result = response.lambdaResponse();
+    expect(result.body).toBe('ab');
+    expect(result.headers).not.toHaveProperty('transfer-encoding');
+  });
+
+  it('should return an empty body when nothing is written', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV1Event);
+    response.statusCode = 204;
+    response.end();
+    await finished(response);
+
+    expect(response.lambdaResponse()).toMatchObject({ statusCode: 204, body: '' });
+  });
+});
+
+describe('LambdaResponse base64 encoding', () => {
+  async function respond(
+    headers: { [key: string]: string },
+    body: Buffer | string,
+    options: LambdaResponseOptions = {}
+  ) {
+    const { response } = createRequestResponsePair(apiGatewayV1Event, options);
+    for (const [key, value] of Object.entries(headers)) {
+      response.setHeader(key, value);
+    }
+    response.end(body);
+    await finished(response);
+    return response.lambdaResponse();
+  }
+
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00]);
+
+  it('should return UTF-8 JSON with non-ASCII characters as a string', async () => {
+    const json = JSON.stringify({ name: 'Zoë', emoji: '🎉' }, null, 2);
+    const result = await respond({ 'content-type': 'application/json; charset=utf-8' }, json);
+    expect(result).toMatchObject({ body: json, isBase64Encoded: false });
+  });
+
+  it('should base64-encode configured binary media types', async () => {
+    const result = await respond({ 'content-type': 'image/png' }, png, { binaryMediaTypes: ['image/*'] });
+    expect(result).toMatchObject({ body: png.toString('base64'), isBase64Encoded: true });
+  });
+
+  it('should base64-encode text covered by a catch-all binary media type', async () => {
+    const result = await respond({ 'content-type': 'text/plain' }, 'hello', { binaryMediaTypes: ['*/*'] });
+    expect(result).toMatchObject({ body: Buffer.from('hello').toString('base64'), isBase64Encoded: true });
+  });
+
+  it('should base64-encode content-encoded bodies', async () => {
+    const result = await respond({ 'content-type': 'application/json', 'content-encoding': 'gzip' }, png);
+    expect(result).toMatchObject({ isBase64Encoded: true });
+  });
+
+  it('should base64-encode unknown types that are not valid UTF-8', async () => {
+    const result = await respond({ 'content-type': 'application/octet-stream' }, png);
+    expect(result).toMatchObject({ body: png.toString('base64'), isBase64Encoded: true });
+  });
+
+  it('should return untyped UTF-8 bodies as strings', async () => {
+    const result = await respond({}, 'line one\nline two');
+    expect(result).toMatchObject({ body: 'line one\nline two', isBase64Encoded: false });
+  });
+});
+
+describe('LambdaResponse ALB results', () => {
+  it('should include a status description and single-value headers', async () => {
+    const { response } = createRequestResponsePair(albEvent);
+    response.statusCode = 404;
+    response.setHeader('content-type', 'text/plain');
+    response.setHeader('set-cookie', ['a=1', 'b=2']);
+    response.end('missing');
+    await finished(response);
+
+    expect(response.toLambdaResponse()).toEqual({
+      statusCode: 404,
+      statusDescription: '404 Not Found',
+      headers: { 'content-type': 'text/plain', 'set-cookie': 'b=2' },
+      body: 'missing',
+      isBase64Encoded: false
+    });
+  });
+
+  it('should use multiValueHeaders when the target group enables them', async () => {
+    const { response } = createRequestResponsePair(albMultiValueEvent);
+    response.setHeader('content-type', 'text/plain');
+    response.setHeader('set-cookie', ['a=1', 'b=2']);
+    response.end('ok');
+    await finished(response);
+
+    expect(response.toLambdaResponse()).toEqual({
+      statusCode: 200,
+      statusDescription: '200 OK',
+      multiValueHeaders: { 'content-type': ['text/plain'], 'set-cookie': ['a=1', 'b=2'] },
+      body: 'ok',
+      isBase64Encoded: false
+    });
+  });
+});
+
+describe('payload limit', () => {
+  async function oversized(event: any, options: LambdaResponseOptions, contentType: string = 'text/plain'): Promise<any> {
+    const { response } = createRequestResponsePair(event, options);
+    response.setHeader('content-type', contentType);
+    response.setHeader('content-length', '5000');
+    response.end('x'.repeat(5000));
+    await finished(response);
+    return response.finalizeLambdaResponse();
+  }
+
+  it('should return results under the limit unchanged', async () => {
+    const result = await oversized(apiGatewayV2Event, { payloadLimit: { limit: 10000 } });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toHaveLength(5000);
+  });
+
+  it('should replace oversized results with a 502 JSON error by default', async () => {
+    const result = await oversized(apiGatewayV1Event, { payloadLimit: { limit: 1000 } });
+
+    expect(result).toEqual({
+      statusCode: 502,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Bad Gateway' }),
+      isBase64Encoded: false,
+    });
+  });
+
+  it('should use the configured error status code', async () => {
+    const result = await oversized(albEvent, { payloadLimit: { limit: 1000, statusCode: 413 } });
+
+    expect(result).toMatchObject({ statusCode: 413, statusDescription: '413 Payload Too Large' });
+  });
+
+  it('should truncate the body to fit and add a warning header', async () => {
+    const result = await oversized(apiGatewayV2Event, { payloadLimit: { limit: 1000, strategy: 'truncate' } });
+
+    expect(Buffer.byteLength(JSON.stringify(result))).toBeLessThanOrEqual(1000);
+    expect(result.statusCode).toBe(200);
+    expect(result.headers['x-response-truncated']).toBe('5000');
+    expect(result.headers['content-length']).toBeUndefined();
+    expect('x'.repeat(5000).startsWith(result.body)).toBe(true);
+  });
+
+  it('should truncate base64 bodies in whole bytes', async () => {
+    const result = await oversized(albMultiValueEvent, {
+      binaryMediaTypes: ['application/octet-stream'],
+      payloadLimit: { limit: 1000, strategy: 'truncate' },
+    }, 'application/octet-stream');
+
+    expect(Buffer.byteLength(JSON.stringify(result))).toBeLessThanOrEqual(1000);
+    expect(result.isBase64Encoded).toBe(true);
+    expect(result.multiValueHeaders['x-response-truncated']).toEqual(['5000']);
+    expect(result.headers).toBeUndefined();
+    expect(Buffer.from(result.body, 'base64').toString()).toMatch(/^x+$/);
+  });
+
+  it('should return an error rather than truncate a content-encoded body', async () => {
+    const { response } = createRequestResponsePair(apiGatewayV2Event, { payloadLimit: { limit: 1000, strategy: 'truncate' } });
+    response.setHeader('content-encoding', 'gzip');
+    response.end(Buffer.alloc(5000));
+    await finished(response);
+
+    expect(await response.finalizeLambdaResponse()).toMatchObject({ statusCode: 502 });
+  });
+
+  it('should pass oversized results to a callback', async () => {
+    const strategy = jest.fn(async () => ({ statusCode: 302, headers: { location: 'https://bucket.example.com/large' }, body: '' }));
+    const result = await oversized(apiGatewayV2Event, { payloadLimit: { limit: 1000, strategy } });
+
+    expect(result).toEqual({ statusCode: 302, headers: { location: 'https://bucket.example.com/large' }, body: '' });
+    expect(strategy).toHaveBeenCalledWith(expect.objectContaining({
+      event: apiGatewayV2Event,
+      body: Buffer.from('x'.repeat(5000)),
+      limit: 1000,
+      size: expect.any(Number),
+    }));
+  });
+
+  it('should shape the error result for the event when called directly', async () => {
+    const result = await enforcePayloadLimit({ statusCode: 200, body: 'x'.repeat(5000) }, albEvent, { limit: 1000 });
+
+    expect(result).toMatchObject({ statusCode: 502, statusDescription: '502 Bad Gateway' });
+  });
+});
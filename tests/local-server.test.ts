@@ -0,0 +1,108 @@
+/**
+ * Tests for the local development server
+ */
+import { type Server } from 'http';
+import { type AddressInfo } from 'net';
+
+import { createHandler, createLocalServer, type LocalServerOptions } from '../src/index';
+import { echo } from './fixtures/listeners';
+
+async function withServer(
+  handler: Parameters<typeof createLocalServer>[0],
+  options: LocalServerOptions,
+  run: (baseUrl: string) => Promise<void>
+): Promise<void> {
+  const server: Server = createLocalServer(handler, { ...options, port: 0, host: '127.0.0.1' });
+  await new Promise((resolve) => server.once('listening', resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+const echoHandler = createHandler(echo);
+
+describe('createLocalServer', () => {
+  for (const version of ['v1', 'v2', 'alb'] as const) {
+    it(`should round-trip requests through ${version} events`, async () => {
+      const events: any[] = [];
+      const handler = async (event: any, context: any) => {
+        events.push(event);
+        return echoHandler(event, context);
+      };
+
+      await withServer(handler, { version, multiValueHeaders: true }, async (baseUrl) => {
+        const body = Buffer.from([0x00, 0xff, 0x10, 0x80]);
+        const response = await fetch(`${baseUrl}/items?tag=a&tag=b`, {
+          method: 'POST',
+          headers: [
+            ['accept', 'text/html'],
+            ['accept', 'application/json'],
+            ['content-type', 'application/octet-stream'],
+            ['cookie', 'x=1; y=2']
+          ],
+          body
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2; HttpOnly']);
+        expect(await response.json()).toEqual({
+          method: 'POST',
+          url: '/items?tag=a&tag=b',
+          accept: 'text/html, application/json',
+          cookie: 'x=1; y=2',
+          body: body.toString('base64')
+        });
+        expect(events[0].isBase64Encoded).toBe(true);
+      });
+    });
+  }
+
+  it('should synthesize spec-shaped v2 events', async () => {
+    let event: any;
+    let remaining = 0;
+    await withServer(async (e, context) => {
+      event = e;
+      remaining = context.getRemainingTimeInMillis();
+      return { statusCode: 204 };
+    }, { version: 'v2', timeout: 5000 }, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/hello?name=test`, { headers: { cookie: 'a=1' } });
+      expect(response.status).toBe(204);
+    });
+
+    expect(event).toMatchObject({
+      version: '2.0',
+      routeKey: '$default',
+      rawPath: '/hello',
+      rawQueryString: 'name=test',
+      cookies: ['a=1'],
+      queryStringParameters: { name: 'test' },
+      requestContext: { http: { method: 'GET', path: '/hello', sourceIp: '127.0.0.1' }, stage: '$default' }
+    });
+    expect(remaining).toBeGreaterThan(4000);
+  });
+
+  it('should return 502 when the handler throws', async () => {
+    await withServer(async () => {
+      throw new Error('boom');
+    }, {}, async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/`);
+      expect(response.status).toBe(502);
+    });
+  });
+
+  it('should report listen errors instead of throwing', async () => {
+    await withServer(async () => ({ statusCode: 204 }), {}, async (baseUrl) => {
+      const errors: Error[] = [];
+      const server = createLocalServer(async () => ({ statusCode: 204 }), {
+        port: Number(new URL(baseUrl).port),
+        host: '127.0.0.1',
+        onError: (error) => errors.push(error)
+      });
+      await new Promise((resolve) => server.once('error', resolve));
+
+      expect((errors[0] as NodeJS.ErrnoException).code).toBe('EADDRINUSE');
+    });
+  });
+});
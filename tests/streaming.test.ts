@@ -0,0 +1,98 @@
+/**
+ * Tests for Function URL response streaming
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { PassThrough } from 'stream';
+import { type Context } from 'aws-lambda';
+
+import { createStreamingHandler, HTTP_INTEGRATION_CONTENT_TYPE } from '../src/index';
+import { apiGatewayV2Event } from './fixtures/events';
+
+const context = { awsRequestId: 'test-aws-request-id' } as Context;
+
+/**
+ * Local stand-in for the Lambda response stream
+ */
+class FakeResponseStream extends PassThrough {
+  contentType: string | undefined;
+  chunks: Buffer[] = [];
+
+  constructor() {
+    super();
+    this.on('data', (chunk: Buffer) => this.chunks.push(chunk));
+  }
+
+  setContentType(contentType: string) {
+    this.contentType = contentType;
+  }
+
+  /**
+   * Split the captured bytes into the JSON prelude and the body
+   */
+  parse(): { prelude: any, body: string } {
+    const data = Buffer.concat(this.chunks);
+    const separator = data.indexOf(Buffer.alloc(8));
+    return {
+      prelude: JSON.parse(data.subarray(0, separator).toString('utf8')),
+      body: data.subarray(separator + 8).toString('utf8')
+    };
+  }
+}
+
+describe('createStreamingHandler', () => {
+  it('should write the prelude followed by the body', async () => {
+    const stream = new FakeResponseStream();
+    const handler = createStreamingHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = 201;
+      res.setHeader('content-type', 'text/csv');
+      res.setHeader('set-cookie', ['a=1; Path=/', 'b=2']);
+      res.write('id,name\n');
+      res.end('1,alice\n');
+    });
+
+    await handler(apiGatewayV2Event, stream, context);
+
+    expect(stream.contentType).toBe(HTTP_INTEGRATION_CONTENT_TYPE);
+    expect(stream.writableEnded).toBe(true);
+    expect(stream.parse()).toEqual({
+      prelude: {
+        statusCode: 201,
+        headers: { 'content-type': 'text/csv' },
+        cookies: ['a=1; Path=/', 'b=2']
+      },
+      body: 'id,name\n1,alice\n'
+    });
+  });
+
+  it('should pass chunks through before the response ends', async () => {
+    const stream = new FakeResponseStream();
+    let writtenBeforeEnd = 0;
+    const handler = createStreamingHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('content-type', 'text/event-stream');
+      res.write('data: one\n\n');
+      setImmediate(() => {
+        writtenBeforeEnd = Buffer.concat(stream.chunks).length;
+        res.end('data: two\n\n');
+      });
+    });
+
+    await handler(apiGatewayV2Event, stream, context);
+
+    expect(writtenBeforeEnd).toBeGreaterThan(0);
+    expect(stream.parse().body).toBe('data: one\n\ndata: two\n\n');
+  });
+
+  it('should stream the error result when the listener fails before responding', async () => {
+    const stream = new FakeResponseStream();
+    const handler = createStreamingHandler(() => {
+      throw new Error('boom');
+    });
+
+    await handler(apiGatewayV2Event, stream, context);
+
+    const { prelude, body } = stream.parse();
+    expect(prelude.statusCode).toBe(500);
+    expect(JSON.parse(body)).toEqual({ message: 'Internal Server Error' });
+    expect(stream.writableEnded).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for trace context propagation
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+import {
+  buildContext,
+  buildV1Event,
+  buildV2Event,
+  createFetchHandler,
+  createHandler,
+  createRequestResponsePair,
+  createTracedInvocation,
+  decodeResult,
+  getTraceContext,
+  invoke,
+  parseXRayTraceHeader,
+  xrayToTraceparent,
+} from '../src/index';
+
+const XRAY_HEADER = 'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1';
+
+describe('parseXRayTraceHeader', () => {
+  it('should parse the root, parent and sampling decision', () => {
+    expect(parseXRayTraceHeader(XRAY_HEADER)).toEqual({
+      traceId: '1-5759e988-bd862e3fe1be46a994272793',
+      parentId: '53995c3f42cd8ad8',
+      sampled: true,
+    });
+    expect(parseXRayTraceHeader('Root=1-5759e988-bd862e3fe1be46a994272793')).toEqual({
+      traceId: '1-5759e988-bd862e3fe1be46a994272793',
+      parentId: undefined,
+      sampled: undefined,
+    });
+  });
+
+  it('should reject headers without a valid root', () => {
+    expect(parseXRayTraceHeader(undefined)).toBeUndefined();
+    expect(parseXRayTraceHeader('Parent=53995c3f42cd8ad8')).toBeUndefined();
+    expect(parseXRayTraceHeader('Root=not-a-trace')).toBeUndefined();
+  });
+});
+
+describe('xrayToTraceparent', () => {
+  it('should map the X-Ray trace and parent IDs to W3C', () => {
+    expect(xrayToTraceparent('1-5759e988-bd862e3fe1be46a994272793', '53995c3f42cd8ad8', true))
+      .toBe('00-5759e988bd862e3fe1be46a994272793-53995c3f42cd8ad8-01');
+  });
+
+  it('should generate a span ID when there is no parent', () => {
+    expect(xrayToTraceparent('1-5759e988-bd862e3fe1be46a994272793', undefined, false))
+      .toMatch(/^00-5759e988bd862e3fe1be46a994272793-[0-9a-f]{16}-00$/);
+  });
+});
+
+describe('getTraceContext', () => {
+  const original = process.env._X_AMZN_TRACE_ID;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env._X_AMZN_TRACE_ID;
+    } else {
+      process.env._X_AMZN_TRACE_ID = original;
+    }
+  });
+
+  it('should read the X-Amzn-Trace-Id header', () => {
+    const trace = getTraceContext(buildV2Event({ headers: { 'x-amzn-trace-id': XRAY_HEADER } }));
+
+    expect(trace).toEqual({
+      traceId: '1-5759e988-bd862e3fe1be46a994272793',
+      parentId: '53995c3f42cd8ad8',
+      sampled: true,
+      traceparent: '00-5759e988bd862e3fe1be46a994272793-53995c3f42cd8ad8-01',
+      xrayHeader: XRAY_HEADER,
+    });
+  });
+
+  it('should fall back to the _X_AMZN_TRACE_ID environment variable', () => {
+    process.env._X_AMZN_TRACE_ID = XRAY_HEADER;
+
+    expect(getTraceContext(buildV1Event())?.traceId).toBe('1-5759e988-bd862e3fe1be46a994272793');
+  });
+
+  it('should keep a valid traceparent from the request', () => {
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+    const trace = getTraceContext(buildV2Event({ headers: { 'x-amzn-trace-id': XRAY_HEADER, traceparent } }));
+
+    expect(trace?.traceparent).toBe(traceparent);
+  });
+
+  it('should return undefined without a trace', () => {
+    delete process.env._X_AMZN_TRACE_ID;
+
+    expect(getTraceContext(buildV2Event())).toBeUndefined();
+  });
+});
+
+describe('request trace context', () => {
+  it('should expose the trace context and a stable synthesized traceparent header', () => {
+    const { request } = createRequestResponsePair(buildV1Event({ headers: { 'X-Amzn-Trace-Id': 'Root=1-5759e988-bd862e3fe1be46a994272793' } }));
+
+    expect(request.traceContext?.traceId).toBe('1-5759e988-bd862e3fe1be46a994272793');
+    expect(request.headers['traceparent']).toBe(request.traceContext?.traceparent);
+    expect(request.headers['traceparent']).toBe(request.headers['traceparent']);
+  });
+
+  it('should not add a second traceparent header', () => {
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+    const { request } = createRequestResponsePair(buildV2Event({ headers: { 'x-amzn-trace-id': XRAY_HEADER, traceparent } }));
+
+    expect(request.headersDistinct['traceparent']).toEqual([traceparent]);
+  });
+});
+
+describe('correlationIdHeader', () => {
+  const app = (_req: IncomingMessage, res: ServerResponse) => res.end();
+
+  it('should echo the request header when sent', async () => {
+    const handler = createHandler(app, { correlationIdHeader: 'x-correlation-id' });
+
+    const response = await invoke(handler, { headers: { 'x-correlation-id': 'abc-123', 'x-amzn-trace-id': XRAY_HEADER } });
+
+    expect(response.headers['x-correlation-id']).toBe('abc-123');
+  });
+
+  it('should fall back to the X-Ray trace ID, then the request ID', async () => {
+    const handler = createHandler(app, { correlationIdHeader: 'x-correlation-id' });
+    const event = buildV1Event();
+
+    const traced = await invoke(handler, { headers: { 'x-amzn-trace-id': XRAY_HEADER } });
+    const untraced = decodeResult(await handler(event, buildContext()));
+
+    expect(traced.headers['x-correlation-id']).toBe('1-5759e988-bd862e3fe1be46a994272793');
+    expect(untraced.headers['x-correlation-id']).toBe(event.requestContext.requestId);
+  });
+
+  it('should let the app override the header', async () => {
+    const handler = createHandler((_req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('x-correlation-id', 'from-app');
+      res.end();
+    }, { correlationIdHeader: 'x-correlation-id' });
+
+    const response = await invoke(handler, {});
+
+    expect(response.headers['x-correlation-id']).toBe('from-app');
+  });
+
+  it('should be added to Fetch API responses', async () => {
+    const handler = createFetchHandler(() => new Response('ok'), { correlationIdHeader: 'X-Correlation-Id' });
+
+    const response = await invoke(handler, { headers: { 'x-correlation-id': 'abc-123' } });
+
+    expect(response.headers['x-correlation-id']).toBe('abc-123');
+  });
+});
+
+describe('tracing hook', () => {
+  it('should wrap each invocation with the span name and trace context', async () => {
+    const spans: string[] = [];
+    const handler = createHandler((_req: IncomingMessage, res: ServerResponse) => {
+      spans.push('handler');
+      res.end();
+    }, {
+      tracing: async (invocation, run) => {
+        spans.push(`start ${invocation.spanName} ${invocation.traceContext?.traceId}`);
+        const result = await run();
+        spans.push('end');
+        return result;
+      },
+    });
+
+    await invoke(handler, { method: 'POST', headers: { 'x-amzn-trace-id': XRAY_HEADER } });
+
+    expect(spans).toEqual(['start POST 1-5759e988-bd862e3fe1be46a994272793', 'handler', 'end']);
+  });
+
+  it('should return the error result for malformed events instead of rejecting', async () => {
+    const tracing = jest.fn((_invocation, run) => run());
+    const handler = createHandler((_req: IncomingMessage, res: ServerResponse) => res.end(), { tracing });
+
+    const result = await handler(null as any, buildContext());
+
+    expect(result).toMatchObject({ statusCode: 500 });
+    expect(tracing).not.toHaveBeenCalled();
+  });
+
+  it('should name spans after the matched route', () => {
+    const v1 = buildV1Event({ method: 'GET', url: '/users/1' });
+    const v2 = { ...buildV2Event(), routeKey: 'GET /users/{id}' };
+
+    expect(createTracedInvocation(v1, buildContext()).spanName).toBe('GET /{proxy+}');
+    expect(createTracedInvocation(v2, buildContext()).spanName).toBe('GET /users/{id}');
+  });
+});
@@ -5,12 +5,15 @@
 import {
   isAPIGatewayV1,
   isAPIGatewayV2,
+  isALBEvent,
+  detectApiGatewayVersion,
+  validateApiGatewayEvent,
   APIGatewayEvent,
   APIGatewayProxyEvent,
   APIGatewayProxyEventV2
 } from '../src/types';
 
-import { apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
+import { albEvent, albMultiValueEvent, apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
 
 describe('Type Guards', () => {
   describe('isAPIGatewayV1', () => {
@@ -67,4 +70,23 @@ describe('Union Types', () => {
       expect(event.version).toBe('2.0');
     }
   });
-}); 
\ No newline at end of file
+});
+
+describe('Event Source Detection', () => {
+  it('should detect API Gateway v1 and v2 events', () => {
+    expect(detectApiGatewayVersion(apiGatewayV1Event)).toBe('v1');
+    expect(detectApiGatewayVersion(apiGatewayV2Event)).toBe('v2');
+  });
+
+  it('should detect ALB events in both header modes', () => {
+    expect(isALBEvent(albEvent)).toBe(true);
+    expect(isALBEvent(apiGatewayV1Event)).toBe(false);
+    expect(detectApiGatewayVersion(albEvent)).toBe('alb');
+    expect(detectApiGatewayVersion(albMultiValueEvent)).toBe('alb');
+  });
+
+  it('should validate ALB events', () => {
+    expect(validateApiGatewayEvent(albEvent)).toBe(true);
+    expect(validateApiGatewayEvent({ ...albEvent, path: undefined })).toBe(false);
+  });
+});
@@ -8,9 +8,14 @@ import {
   parsePath,
   isXHR,
   getSubdomains,
-  normalizeHeaders
+  normalizeHeaders,
+  isTextMediaType,
+  matchesMediaType,
+  getSourceIP,
+  getForwardedPort,
+  getEventHeader
 } from '../src/util';
-import { apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
+import { albMultiValueEvent, apiGatewayV1Event, apiGatewayV2Event } from './fixtures/events';
 
 describe('Utility Functions', () => {
   describe('isSecure', () => {
@@ -66,6 +71,47 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('getClientIP with proxies', () => {
+    it('should return the first X-Forwarded-For entry', () => {
+      const proxiedEvent = {
+        ...apiGatewayV1Event,
+        headers: { ...apiGatewayV1Event.headers, 'X-Forwarded-For': '203.0.113.7, 10.0.0.1' }
+      };
+      expect(getClientIP(proxiedEvent)).toBe('203.0.113.7');
+    });
+
+    it('should read multi-value headers from ALB events', () => {
+      expect(getClientIP(albMultiValueEvent)).toBe('192.168.1.1');
+      expect(isSecure(albMultiValueEvent)).toBe(true);
+    });
+  });
+
+  describe('getSourceIP', () => {
+    it('should read the source IP from the request context', () => {
+      expect(getSourceIP(apiGatewayV1Event)).toBe('192.168.1.1');
+      expect(getSourceIP(apiGatewayV2Event)).toBe('192.168.1.1');
+    });
+
+    it('should return undefined for ALB events', () => {
+      expect(getSourceIP(albMultiValueEvent)).toBeUndefined();
+    });
+  });
+
+  describe('getForwardedPort', () => {
+    it('should parse X-Forwarded-Port', () => {
+      expect(getForwardedPort(albMultiValueEvent)).toBe(443);
+      expect(getForwardedPort(apiGatewayV1Event)).toBeUndefined();
+    });
+  });
+
+  describe('getEventHeader', () => {
+    it('should ignore header name case', () => {
+      expect(getEventHeader(apiGatewayV1Event, 'host')).toBe('api.example.com');
+      expect(getEventHeader(apiGatewayV2Event, 'Host')).toBe('api.example.com');
+      expect(getEventHeader(apiGatewayV2Event, 'x-missing')).toBeUndefined();
+    });
+  });
+
   describe('getHostname', () => {
     it('should extract hostname from Host header', () => {
       expect(getHostname(apiGatewayV1Event)).toBe('api.example.com');
@@ -156,4 +202,31 @@ describe('Utility Functions', () => {
       expect(normalizeHeaders({})).toEqual({});
     });
   });
-}); 
\ No newline at end of file
+
+  describe('isTextMediaType', () => {
+    it('should recognize text media types', () => {
+      expect(isTextMediaType('text/html; charset=utf-8')).toBe(true);
+      expect(isTextMediaType('application/json')).toBe(true);
+      expect(isTextMediaType('application/problem+json')).toBe(true);
+      expect(isTextMediaType('application/atom+xml')).toBe(true);
+    });
+
+    it('should reject binary media types', () => {
+      expect(isTextMediaType('image/png')).toBe(false);
+      expect(isTextMediaType('application/octet-stream')).toBe(false);
+    });
+  });
+
+  describe('matchesMediaType', () => {
+    it('should match exact and wildcard patterns', () => {
+      expect(matchesMediaType('image/png', ['image/png'])).toBe(true);
+      expect(matchesMediaType('Image/PNG; q=1', ['image/*'])).toBe(true);
+      expect(matchesMediaType('application/pdf', ['*/*'])).toBe(true);
+    });
+
+    it('should not match other media types', () => {
+      expect(matchesMediaType('image/png', ['image/jpeg', 'application/*'])).toBe(false);
+      expect(matchesMediaType('image/png', [])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for WebSocket API support
+ */
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+import {
+  buildContext,
+  createRequestResponsePair,
+  createWebSocketHandler,
+  InMemoryWebSocketConnections,
+  isWebSocketEvent,
+  type LambdaIncomingMessage,
+  toWebSocketRequestEvent,
+} from '../src/index';
+import { apiGatewayV1Event, webSocketConnectEvent, webSocketMessageEvent } from './fixtures/events';
+import { readBody } from './fixtures/listeners';
+
+describe('isWebSocketEvent', () => {
+  it('should recognize WebSocket events only', () => {
+    expect(isWebSocketEvent(webSocketMessageEvent)).toBe(true);
+    expect(isWebSocketEvent(apiGatewayV1Event)).toBe(false);
+  });
+});
+
+describe('toWebSocketRequestEvent', () => {
+  it('should map the route to a POST request path', () => {
+    const { request } = createRequestResponsePair(toWebSocketRequestEvent(webSocketConnectEvent));
+
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/$connect?token=abc');
+    expect(request.headers['sec-websocket-protocol']).toBe('chat');
+    expect(request.socket.remoteAddress).toBe('198.51.100.7');
+    expect(request.stage).toBe('prod');
+  });
+
+  it('should expose the connection on req.webSocket', () => {
+    const { request } = createRequestResponsePair(toWebSocketRequestEvent(webSocketMessageEvent));
+
+    expect(request.webSocket).toMatchObject({
+      connectionId: 'conn-1=',
+      eventType: 'MESSAGE',
+      routeKey: '$default',
+      messageId: 'msg-abc=',
+      domainName: 'ws.example.com',
+      stage: 'prod',
+    });
+  });
+
+  it('should keep the Lambda authorizer context', () => {
+    const event = {
+      ...webSocketConnectEvent,
+      requestContext: { ...webSocketConnectEvent.requestContext, authorizer: { principalId: 'user-9', role: 'admin' } },
+    };
+    const { request } = createRequestResponsePair(toWebSocketRequestEvent(event));
+
+    expect(request.lambdaAuth?.principalId).toBe('user-9');
+    expect(request.lambdaAuth?.context).toMatchObject({ role: 'admin' });
+  });
+
+  it('should leave req.webSocket undefined for HTTP events', () => {
+    const { request } = createRequestResponsePair(apiGatewayV1Event);
+
+    expect(request.webSocket).toBeUndefined();
+  });
+});
+
+describe('createWebSocketHandler', () => {
+  it('should turn the response into the route response', async () => {
+    const handler = createWebSocketHandler(async (req: IncomingMessage, res: ServerResponse) => {
+      const message = JSON.parse((await readBody(req)).toString());
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ pong: message.action === 'ping', url: req.url }));
+    });
+
+    const result = await handler(webSocketMessageEvent, buildContext());
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({ pong: true, url: '/$default' });
+  });
+
+  it('should reject a connection with the response status', async () => {
+    const handler = createWebSocketHandler((req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = req.url?.includes('token=abc') ? 200 : 401;
+      res.end();
+    });
+
+    const accepted = await handler(webSocketConnectEvent, buildContext());
+    const rejected = await handler({ ...webSocketConnectEvent, queryStringParameters: {} }, buildContext());
+
+    expect(accepted.statusCode).toBe(200);
+    expect(rejected.statusCode).toBe(401);
+  });
+
+  it('should push messages through the configured connections', async () => {
+    const connections = new InMemoryWebSocketConnections();
+    const handler = createWebSocketHandler(async (req: IncomingMessage, res: ServerResponse) => {
+      const { webSocket } = req as unknown as LambdaIncomingMessage;
+      await webSocket!.send('hello');
+      await webSocket!.postToConnection('conn-2=', 'broadcast');
+      res.end();
+    }, { webSocketConnections: connections });
+
+    await handler(webSocketMessageEvent, buildContext());
+
+    expect(connections.messages('conn-1=')).toEqual(['hello']);
+    expect(connections.messages('conn-2=')).toEqual(['broadcast']);
+  });
+
+  it('should pass the endpoint to postToConnection', async () => {
+    const postToConnection = jest.fn(async () => {});
+    const handler = createWebSocketHandler(async (req: IncomingMessage, res: ServerResponse) => {
+      await (req as unknown as LambdaIncomingMessage).webSocket!.send('hi');
+      res.end();
+    }, { webSocketConnections: { postToConnection } });
+
+    await handler(webSocketMessageEvent, buildContext());
+
+    expect(postToConnection).toHaveBeenCalledWith('conn-1=', 'hi', { domainName: 'ws.example.com', stage: 'prod' });
+  });
+});
+
+describe('InMemoryWebSocketConnections', () => {
+  it('should fail with 410 Gone for disconnected clients', async () => {
+    const connections = new InMemoryWebSocketConnections();
+    connections.disconnect('conn-1=');
+
+    await expect(connections.postToConnection('conn-1=', 'late')).rejects.toMatchObject({ name: 'GoneException', statusCode: 410 });
+  });
+
+  it('should fail to send without a connections client', async () => {
+    const { request } = createRequestResponsePair(toWebSocketRequestEvent(webSocketMessageEvent));
+
+    await expect(request.webSocket!.send('hi')).rejects.toThrow('No WebSocket connections client configured');
+  });
+});